@@ -274,7 +274,7 @@ export function ApiDocs() {
               <ul className="space-y-2 text-sm text-muted-foreground">
                 <li className="flex items-start space-x-2">
                   <CheckCircle className="h-4 w-4 text-secondary mt-0.5 flex-shrink-0" />
-                  <span>Maximum file size: 10MB</span>
+                  <span>Maximum file size: 10MB unless configured otherwise for the route or your API key (<code>X-API-Key</code>); larger uploads get a 413</span>
                 </li>
                 <li className="flex items-start space-x-2">
                   <CheckCircle className="h-4 w-4 text-secondary mt-0.5 flex-shrink-0" />
@@ -0,0 +1,89 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { ImageDiffResponse, ImageResponse } from '@shared/schema';
+
+interface ImageDiffViewProps {
+  image: ImageResponse;
+}
+
+// The image uploaded just before `image`, or null when it is the oldest one
+const fetchPreviousImage = async (image: ImageResponse): Promise<ImageResponse | null> => {
+  const to = new Date(image.uploadedAt).toISOString();
+  const res = await apiRequest('GET', `/api/v1/images?to=${encodeURIComponent(to)}&limit=2`);
+  const { data } = await res.json() as { data: ImageResponse[] };
+  return data.find(candidate => candidate.id !== image.id) ?? null;
+};
+
+// Highlights what changed between the previous upload and the current image
+export function ImageDiffView({ image }: ImageDiffViewProps) {
+  const previous = useQuery({
+    queryKey: ['/api/v1/images', 'previous', image.id],
+    queryFn: () => fetchPreviousImage(image),
+  });
+
+  const diff = useQuery({
+    queryKey: ['/api/v1/images/diff', previous.data?.id, image.id],
+    queryFn: async () => {
+      const res = await apiRequest('POST', '/api/v1/images/diff', {
+        baseId: previous.data!.id,
+        compareId: image.id,
+      });
+      return (await res.json()).data as ImageDiffResponse;
+    },
+    enabled: !!previous.data,
+  });
+
+  if (previous.isLoading || diff.isLoading) {
+    return (
+      <div className="text-center" data-testid="loading-diff">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+        <p className="text-muted-foreground">Comparing with the previous image...</p>
+      </div>
+    );
+  }
+
+  if (previous.data === null) {
+    return (
+      <p className="text-muted-foreground" data-testid="text-diff-unavailable">
+        There is no earlier image to compare with.
+      </p>
+    );
+  }
+
+  if (!diff.data) {
+    return (
+      <p className="text-destructive" data-testid="text-diff-error">
+        The images could not be compared.
+      </p>
+    );
+  }
+
+  const { width, height, regions, changedPercent } = diff.data;
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="relative inline-block">
+        <img
+          src={diff.data.url}
+          alt="Changed pixels compared with the previous image"
+          className="max-w-full max-h-[600px] w-auto h-auto object-contain rounded-lg shadow-2xl"
+          data-testid="img-diff"
+        />
+        {regions.map((region, index) => (
+          <div
+            key={index}
+            className="absolute border-2 border-primary pointer-events-none"
+            style={{
+              left: `${(region.x / width) * 100}%`,
+              top: `${(region.y / height) * 100}%`,
+              width: `${(region.width / width) * 100}%`,
+              height: `${(region.height / height) * 100}%`,
+            }}
+          />
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground" data-testid="text-diff-summary">
+        {changedPercent.toFixed(2)}% of pixels changed in {regions.length} region{regions.length === 1 ? '' : 's'} since {previous.data?.filename || 'the previous image'}
+      </p>
+    </div>
+  );
+}
@@ -1,13 +1,64 @@
-import { useState } from 'react';
+import { useState, type CSSProperties } from 'react';
 import { useWebSocket } from '@/hooks/use-websocket';
 import { Button } from '@/components/ui/button';
-import { Download, Copy, Trash2, Image as ImageIcon } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Download, Copy, Trash2, Image as ImageIcon, Diff, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { blurhashToDataUrl } from '@/lib/placeholder';
+import { ImageDiffView } from '@/components/image-diff';
+import type { ImageResponse } from '@shared/schema';
+
+// Upload-time derivatives plus the full-size image, for the browser to pick from. The poster is a
+// still frame of an animation, not a smaller copy of it.
+const buildSrcSet = (image: ImageResponse) => {
+  const resized = image.derivatives.filter(derivative => derivative.name !== 'poster');
+  if (!image.width || resized.length === 0) return undefined;
+  return [
+    ...resized.map(derivative => `${derivative.url} ${derivative.width}w`),
+    `${image.url} ${image.width}w`,
+  ].join(', ');
+};
+
+// Dominant colour and blurred preview painted on the image frame until the image has loaded
+const placeholderStyle = (image: ImageResponse): CSSProperties => {
+  const blur = image.blurhash ? blurhashToDataUrl(image.blurhash) : undefined;
+  return {
+    backgroundColor: image.dominantColor ?? undefined,
+    backgroundImage: blur ? `url(${blur})` : undefined,
+    backgroundSize: '100% 100%',
+  };
+};
+
+// Box with the image's aspect ratio, fitted into the container the way the image is, so the
+// placeholder has a size before the image has loaded
+const frameStyle = (image: ImageResponse): CSSProperties | undefined => {
+  if (!image.width || !image.height) return undefined;
+  return {
+    aspectRatio: `${image.width} / ${image.height}`,
+    width: `min(100%, ${image.width}px, ${Math.round(600 * image.width / image.height)}px)`,
+  };
+};
 
 export function ImageDisplay() {
-  const { currentImage } = useWebSocket();
+  const { currentImage, processingJob } = useWebSocket();
   const { toast } = useToast();
-  const [imageLoading, setImageLoading] = useState(false);
+  const [loadedUrl, setLoadedUrl] = useState<string>();
+  const [showDiff, setShowDiff] = useState(false);
+  const imageLoading = !!currentImage?.url && loadedUrl !== currentImage.url;
+  const hasPlaceholder = !!(currentImage?.blurhash || currentImage?.dominantColor);
+  // Placeholder and derivatives of a new upload are still being generated
+  const processing = currentImage && processingJob?.imageId === currentImage.id ? processingJob : null;
   
   const formatFileSize = (bytes: number | undefined) => {
     if (!bytes) return 'Unknown';
@@ -21,11 +72,11 @@ export function ImageDisplay() {
   };
   
   const handleDownload = () => {
-    if (!currentImage?.data) return;
+    if (!currentImage?.url) return;
     
     try {
       const link = document.createElement('a');
-      link.href = currentImage.data;
+      link.href = `${currentImage.rawUrl}?download=1`;
       link.download = currentImage.filename || `image.${currentImage.format}`;
       document.body.appendChild(link);
       link.click();
@@ -45,10 +96,10 @@ export function ImageDisplay() {
   };
   
   const handleCopyUrl = async () => {
-    if (!currentImage?.data) return;
+    if (!currentImage?.url) return;
     
     try {
-      await navigator.clipboard.writeText(currentImage.data);
+      await navigator.clipboard.writeText(new URL(currentImage.url, window.location.origin).href);
       toast({
         title: "URL copied",
         description: "Image URL has been copied to clipboard.",
@@ -62,12 +113,21 @@ export function ImageDisplay() {
     }
   };
   
-  const handleClear = () => {
-    // In a real implementation, this would call an API to clear the current image
-    toast({
-      title: "Clear image",
-      description: "Image clearing is not implemented in this demo.",
-    });
+  const handleClear = async () => {
+    try {
+      // The server broadcasts image_cleared, which blanks this and every other display
+      await apiRequest('DELETE', '/api/v1/image/current');
+      toast({
+        title: "Image cleared",
+        description: "The current image has been cleared from all displays.",
+      });
+    } catch (error) {
+      toast({
+        title: "Clear failed",
+        description: "Failed to clear the current image.",
+        variant: "destructive",
+      });
+    }
   };
   
   return (
@@ -98,20 +158,42 @@ export function ImageDisplay() {
                   : 'Unknown'}
               </span>
             </div>
+            {processing && (
+              <div className="flex items-center space-x-2" data-testid="text-processing">
+                <Loader2 className="h-4 w-4 text-primary animate-spin" />
+                <span className="text-sm text-muted-foreground">
+                  {processing.status === 'queued' && processing.attempts > 0 ? 'Retrying' : 'Processing'}
+                  {processing.step ? ` ${processing.step}` : ''} {processing.progress}%
+                </span>
+              </div>
+            )}
           </div>
         </div>
 
         {/* Image Display Container */}
         <div className="image-container p-8 min-h-[500px] flex items-center justify-center relative">
-          {currentImage?.data ? (
-            <img 
-              src={currentImage.data}
-              alt="Currently displayed image" 
-              className="max-w-full max-h-[600px] w-auto h-auto object-contain rounded-lg shadow-2xl fade-in"
-              onLoad={() => setImageLoading(false)}
-              onLoadStart={() => setImageLoading(true)}
-              data-testid="img-current-image"
-            />
+          {currentImage?.url && showDiff ? (
+            <ImageDiffView image={currentImage} />
+          ) : currentImage?.url ? (
+            <div
+              key={currentImage.url}
+              className="relative rounded-lg shadow-2xl overflow-hidden"
+              style={{ ...frameStyle(currentImage), ...(imageLoading ? placeholderStyle(currentImage) : undefined) }}
+              data-testid="image-frame"
+            >
+              <img 
+                src={currentImage.url}
+                srcSet={buildSrcSet(currentImage)}
+                sizes="(min-width: 1280px) 1216px, 100vw"
+                width={currentImage.width ?? undefined}
+                height={currentImage.height ?? undefined}
+                alt="Currently displayed image" 
+                className={`block object-contain ${frameStyle(currentImage) ? 'w-full h-full' : 'max-w-full max-h-[600px] w-auto h-auto'}${hasPlaceholder ? '' : ' fade-in'}`}
+                onLoad={() => setLoadedUrl(currentImage.url)}
+                onError={() => setLoadedUrl(currentImage.url)}
+                data-testid="img-current-image"
+              />
+            </div>
           ) : (
             <div className="text-center" data-testid="text-no-image">
               <div className="w-24 h-24 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
@@ -122,8 +204,8 @@ export function ImageDisplay() {
             </div>
           )}
           
-          {/* Loading State */}
-          {imageLoading && (
+          {/* Loading State; images with a placeholder show that instead */}
+          {imageLoading && !hasPlaceholder && !showDiff && (
             <div className="absolute inset-0 bg-muted/50 flex items-center justify-center" data-testid="loading-image">
               <div className="text-center">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
@@ -139,7 +221,7 @@ export function ImageDisplay() {
             <Button 
               variant="outline" 
               onClick={handleDownload}
-              disabled={!currentImage?.data}
+              disabled={!currentImage?.url}
               data-testid="button-download"
             >
               <Download className="h-4 w-4 mr-2" />
@@ -148,22 +230,48 @@ export function ImageDisplay() {
             <Button 
               variant="outline" 
               onClick={handleCopyUrl}
-              disabled={!currentImage?.data}
+              disabled={!currentImage?.url}
               data-testid="button-copy-url"
             >
               <Copy className="h-4 w-4 mr-2" />
               Copy URL
             </Button>
+            <Button 
+              variant={showDiff ? "default" : "outline"} 
+              onClick={() => setShowDiff(!showDiff)}
+              disabled={!currentImage?.url}
+              data-testid="button-diff"
+            >
+              <Diff className="h-4 w-4 mr-2" />
+              {showDiff ? 'Hide Diff' : 'Diff'}
+            </Button>
           </div>
-          <Button 
-            variant="destructive" 
-            onClick={handleClear}
-            disabled={!currentImage?.data}
-            data-testid="button-clear"
-          >
-            <Trash2 className="h-4 w-4 mr-2" />
-            Clear
-          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button 
+                variant="destructive" 
+                disabled={!currentImage?.url}
+                data-testid="button-clear"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Clear
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Clear the current image?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every connected display will stop showing this image. It stays in the image history.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel data-testid="button-clear-cancel">Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleClear} data-testid="button-clear-confirm">
+                  Clear
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
         </div>
       </div>
     </section>
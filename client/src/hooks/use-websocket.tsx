@@ -1,5 +1,5 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
-import { Image } from '@shared/schema';
+import { ImageResponse, JobResponse } from '@shared/schema';
 
 interface WebSocketMessage {
   type: string;
@@ -7,7 +7,8 @@ interface WebSocketMessage {
 }
 
 interface UseWebSocketReturn {
-  currentImage: Image | null;
+  currentImage: ImageResponse | null;
+  processingJob: JobResponse | null; // latest unfinished background job reported by the server
   connectionStatus: 'connecting' | 'connected' | 'disconnected';
   messagesReceived: number;
   lastPing: number | null;
@@ -16,7 +17,8 @@ interface UseWebSocketReturn {
 }
 
 export function useWebSocket(): UseWebSocketReturn {
-  const [currentImage, setCurrentImage] = useState<Image | null>(null);
+  const [currentImage, setCurrentImage] = useState<ImageResponse | null>(null);
+  const [processingJob, setProcessingJob] = useState<JobResponse | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected'>('connecting');
   const [messagesReceived, setMessagesReceived] = useState(0);
   const [lastPing, setLastPing] = useState<number | null>(null);
@@ -51,6 +53,12 @@ export function useWebSocket(): UseWebSocketReturn {
         
         if (message.type === 'image_update') {
           setCurrentImage(message.data);
+        } else if (message.type === 'image_cleared') {
+          setCurrentImage(prev => (prev?.id === message.data.id ? null : prev));
+        } else if (message.type === 'job_progress') {
+          setProcessingJob(message.data);
+        } else if (message.type === 'job_complete') {
+          setProcessingJob(prev => (prev?.id === message.data.id ? null : prev));
         } else if (message.type === 'pong') {
           const latency = Date.now() - message.data.timestamp;
           setLastPing(latency);
@@ -133,6 +141,7 @@ export function useWebSocket(): UseWebSocketReturn {
   
   return {
     currentImage,
+    processingJob,
     connectionStatus,
     messagesReceived,
     lastPing,
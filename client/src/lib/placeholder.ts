@@ -0,0 +1,30 @@
+import { decode } from "blurhash";
+
+const SIZE = 32;
+const CACHE_LIMIT = 20;
+const cache = new Map<string, string>();
+
+// Decodes a BlurHash into a small PNG data URL, stretched by CSS behind the loading image
+export function blurhashToDataUrl(blurhash: string): string | undefined {
+  const cached = cache.get(blurhash);
+  if (cached) return cached;
+
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = SIZE;
+    canvas.height = SIZE;
+    const context = canvas.getContext("2d");
+    if (!context) return undefined;
+
+    const pixels = decode(blurhash, SIZE, SIZE);
+    context.putImageData(new ImageData(pixels, SIZE, SIZE), 0, 0);
+    const url = canvas.toDataURL();
+    if (cache.size >= CACHE_LIMIT) {
+      cache.delete(cache.keys().next().value!);
+    }
+    cache.set(blurhash, url);
+    return url;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "images" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"data" text NOT NULL,
+	"filename" text,
+	"format" text,
+	"width" integer,
+	"height" integer,
+	"size" integer,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL
+);
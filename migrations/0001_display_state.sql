@@ -0,0 +1,7 @@
+CREATE TABLE "display_state" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"current_image_id" varchar,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "display_state" ADD CONSTRAINT "display_state_current_image_id_images_id_fk" FOREIGN KEY ("current_image_id") REFERENCES "public"."images"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "image_uploads" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"image_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"filename" text,
+	"duplicate" boolean NOT NULL,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "hash" text;--> statement-breakpoint
+ALTER TABLE "image_uploads" ADD CONSTRAINT "image_uploads_image_id_images_id_fk" FOREIGN KEY ("image_id") REFERENCES "public"."images"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "images_hash_idx" ON "images" USING btree ("hash");
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "display_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"image_id" varchar,
+	"displayed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "display_history" ADD CONSTRAINT "display_history_image_id_images_id_fk" FOREIGN KEY ("image_id") REFERENCES "public"."images"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "images" ALTER COLUMN "uploaded_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+ALTER TABLE "images" ALTER COLUMN "uploaded_at" SET DEFAULT now();
\ No newline at end of file
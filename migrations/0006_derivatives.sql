@@ -0,0 +1 @@
+ALTER TABLE "images" ADD COLUMN "derivatives" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "images" ADD COLUMN "exif" jsonb;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "images" ADD COLUMN "frame_count" integer;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "loop_count" integer;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "frame_delays" jsonb;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "duration" integer;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "images" ADD COLUMN "dominant_color" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "palette" jsonb;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "blurhash" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "images" ADD COLUMN "phash" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "near_duplicate_of" varchar;--> statement-breakpoint
+ALTER TABLE "images" ADD CONSTRAINT "images_near_duplicate_of_images_id_fk" FOREIGN KEY ("near_duplicate_of") REFERENCES "public"."images"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
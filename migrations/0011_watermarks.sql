@@ -0,0 +1,14 @@
+CREATE TABLE "watermark_profiles" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"kind" text NOT NULL,
+	"text" text,
+	"logo" text,
+	"position" text NOT NULL,
+	"opacity" double precision NOT NULL,
+	"scale" double precision NOT NULL,
+	"apply_at" text NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "watermark" varchar;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "watermark_at" text;
\ No newline at end of file
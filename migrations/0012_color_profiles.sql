@@ -0,0 +1,3 @@
+ALTER TABLE "images" ADD COLUMN "icc_profile" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "color_space" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "bit_depth" integer;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "jobs" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"image_id" varchar,
+	"status" text NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"step" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer NOT NULL,
+	"error" text,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_image_id_images_id_fk" FOREIGN KEY ("image_id") REFERENCES "public"."images"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "jobs_status_idx" ON "jobs" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,57 @@
+import sharp from "sharp";
+import type { RenderedDerivative } from "./derivatives";
+
+export interface AnimationInfo {
+  frameCount: number;
+  loopCount: number; // 0 loops forever
+  frameDelays: number[]; // ms per frame
+  duration: number; // ms
+  pageHeight: number; // height of a single frame
+}
+
+// ANIMATED_GIF_TO_WEBP=true converts animated GIFs unless an upload opts out
+export const animatedToWebpByDefault = () => process.env.ANIMATED_GIF_TO_WEBP === "true";
+
+// Sharp stacks all frames vertically, so `height` is the whole strip; `pageHeight` is one frame
+export function describeAnimation(metadata: sharp.Metadata): AnimationInfo | undefined {
+  const frameCount = metadata.pages ?? 1;
+  if (frameCount < 2 || (metadata.format !== "gif" && metadata.format !== "webp")) return undefined;
+
+  const frameDelays = Array.from({ length: frameCount }, (_, index) => metadata.delay?.[index] ?? 100);
+  return {
+    frameCount,
+    loopCount: metadata.loop ?? 0,
+    frameDelays,
+    duration: frameDelays.reduce((total, delay) => total + delay, 0),
+    pageHeight: metadata.pageHeight ?? metadata.height ?? 0,
+  };
+}
+
+// Re-encodes an animated GIF as animated WebP, keeping frame delays and loop count.
+// Returns undefined for anything else, or when WebP would not be smaller.
+export async function convertAnimatedGif(buffer: Buffer): Promise<Buffer | undefined> {
+  const metadata = await sharp(buffer).metadata();
+  if (metadata.format !== "gif" || (metadata.pages ?? 1) < 2) return undefined;
+
+  const webp = await sharp(buffer, { animated: true }).webp({ quality: 80 }).toBuffer();
+  return webp.length < buffer.length ? webp : undefined;
+}
+
+// Still first frame at full size, for previews and formats that cannot animate
+export async function renderPoster(buffer: Buffer): Promise<RenderedDerivative> {
+  const { data, info } = await sharp(buffer, { pages: 1 })
+    .toColourspace("srgb")
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    derivative: {
+      name: "poster",
+      format: "png",
+      width: info.width,
+      height: info.height,
+      size: data.length,
+    },
+    bytes: data,
+  };
+}
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { FsBlobStore } from "./blob-store";
+
+describe("FsBlobStore", () => {
+  let dir: string;
+  let store: FsBlobStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(tmpdir(), "blobs-"));
+    store = new FsBlobStore(dir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("stores, reads and deletes blobs", async () => {
+    await store.put("abc", Buffer.from("bytes"));
+    expect((await store.get("abc"))?.toString()).toBe("bytes");
+
+    await store.delete("abc");
+    expect(await store.get("abc")).toBeUndefined();
+  });
+
+  it("accepts concurrent writes of the same key and leaves no temp files", async () => {
+    const bytes = Buffer.from("same content");
+    await Promise.all(Array.from({ length: 20 }, () => store.put("hash", bytes)));
+
+    expect((await store.get("hash"))?.equals(bytes)).toBe(true);
+    expect(await fs.readdir(dir)).toEqual(["hash"]);
+  });
+
+  it("refuses keys that could leave the blob directory", async () => {
+    await expect(store.put("../escape", Buffer.from("x"))).rejects.toThrow("Invalid blob key");
+    await expect(store.get(".hidden")).rejects.toThrow("Invalid blob key");
+  });
+});
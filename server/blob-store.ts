@@ -0,0 +1,82 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+
+// Opaque byte storage for image payloads; image rows only keep the key
+export interface BlobStore {
+  put(key: string, bytes: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemBlobStore implements BlobStore {
+  private blobs: Map<string, Buffer>;
+
+  constructor() {
+    this.blobs = new Map();
+  }
+
+  async put(key: string, bytes: Buffer): Promise<void> {
+    this.blobs.set(key, bytes);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    return this.blobs.get(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.blobs.delete(key);
+  }
+}
+
+const isNotFound = (error: unknown): error is NodeJS.ErrnoException =>
+  error instanceof Error && "code" in error && error.code === "ENOENT";
+
+export class FsBlobStore implements BlobStore {
+  constructor(private dir: string) {}
+
+  // Keys are generated by us, but never let one escape the blob directory
+  private resolve(key: string): string {
+    if (!/^[A-Za-z0-9._-]+$/.test(key) || key.startsWith(".")) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return path.join(this.dir, key);
+  }
+
+  async put(key: string, bytes: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(this.dir, { recursive: true });
+
+    // Write to a temp file first so readers never see a partial blob. Keys are content hashes, so
+    // the same key may be written by concurrent uploads: each write has its own temp file.
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, bytes);
+    try {
+      await fs.rename(tmp, file);
+    } catch (error) {
+      await fs.rm(tmp, { force: true });
+      // Another write of the same bytes got there first
+      const existing = await this.get(key);
+      if (!existing?.equals(bytes)) throw error;
+    }
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// BLOB_STORE_DIR overrides where image bytes are written on disk
+export function createBlobStore(kind: "fs" | "memory"): BlobStore {
+  if (kind === "memory") return new MemBlobStore();
+  return new FsBlobStore(path.resolve(process.env.BLOB_STORE_DIR || "data/blobs"));
+}
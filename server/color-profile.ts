@@ -0,0 +1,68 @@
+import type sharp from "sharp";
+import type { Image } from "@shared/schema";
+
+export interface ColorInfo {
+  iccProfile: string | null; // description of the embedded ICC profile
+  colorSpace: string | null; // Sharp's interpretation, e.g. 'srgb', 'cmyk', 'rgb16'
+  bitDepth: number | null; // bits per channel
+}
+
+const BIT_DEPTHS: Record<string, number> = {
+  uchar: 8,
+  char: 8,
+  ushort: 16,
+  short: 16,
+  uint: 32,
+  int: 32,
+  float: 32,
+  double: 64,
+};
+
+// Colour spaces browsers show correctly without a profile
+const DISPLAY_SPACES = new Set(["srgb", "b-w"]);
+
+// Reads the human-readable name from an ICC profile's `desc` tag (v2 `desc` or v4 `mluc`)
+export function iccDescription(icc: Buffer | undefined): string | null {
+  if (!icc || icc.length < 132) return null;
+  try {
+    const tagCount = icc.readUInt32BE(128);
+    for (let index = 0; index < tagCount; index++) {
+      const entry = 132 + index * 12;
+      if (entry + 12 > icc.length) break;
+      if (icc.toString("latin1", entry, entry + 4) !== "desc") continue;
+
+      const offset = icc.readUInt32BE(entry + 4);
+      const type = icc.toString("latin1", offset, offset + 4);
+      if (type === "desc") {
+        const length = icc.readUInt32BE(offset + 8);
+        return icc.toString("latin1", offset + 12, offset + 12 + length).replace(/\0+$/, "").trim() || null;
+      }
+      if (type === "mluc") {
+        // First record: language, country, length in bytes, offset from the tag start; text is UTF-16BE
+        const length = icc.readUInt32BE(offset + 20);
+        const start = offset + icc.readUInt32BE(offset + 24);
+        const text = Buffer.from(icc.subarray(start, start + length)).swap16().toString("utf16le");
+        return text.replace(/\0+$/, "").trim() || null;
+      }
+      return null;
+    }
+  } catch (error) {
+    console.error("Error reading ICC profile:", error);
+  }
+  return null;
+}
+
+export function describeColor(metadata: sharp.Metadata): ColorInfo {
+  return {
+    iccProfile: iccDescription(metadata.icc),
+    colorSpace: metadata.space ?? null,
+    bitDepth: metadata.depth ? BIT_DEPTHS[metadata.depth] ?? null : null,
+  };
+}
+
+// 8-bit sRGB (or greyscale) without a foreign profile can be shown as stored;
+// anything else is converted to sRGB before it reaches a display
+export const isDisplayReady = (image: Pick<Image, "iccProfile" | "colorSpace" | "bitDepth">) =>
+  (!image.iccProfile || /srgb/i.test(image.iccProfile)) &&
+  (!image.colorSpace || DISPLAY_SPACES.has(image.colorSpace)) &&
+  (!image.bitDepth || image.bitDepth <= 8);
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { positiveInt, positiveNumber } from "./config";
+
+describe("positiveInt", () => {
+  it("parses whole numbers at or above the minimum", () => {
+    expect(positiveInt("4096", 1)).toBe(4096);
+    expect(positiveInt("0", 16, 0)).toBe(0);
+  });
+
+  it("falls back for missing, non-numeric, fractional and out-of-range values", () => {
+    for (const value of [undefined, "", "abc", "12px", "1.5", "0", "-3"]) {
+      expect(positiveInt(value, 7)).toBe(7);
+    }
+  });
+});
+
+describe("positiveNumber", () => {
+  it("parses positive numbers", () => {
+    expect(positiveNumber("2.5", 5)).toBe(2.5);
+    expect(positiveNumber("24")).toBe(24);
+  });
+
+  it("falls back, or leaves the setting off, for invalid values", () => {
+    for (const value of [undefined, "", "fast", "0", "-1", "Infinity"]) {
+      expect(positiveNumber(value, 5)).toBe(5);
+      expect(positiveNumber(value)).toBeUndefined();
+    }
+  });
+});
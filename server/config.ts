@@ -0,0 +1,15 @@
+// Numeric settings read from the environment. Unset, non-numeric and out-of-range values fall back
+// to the default, so a typo never turns a limit into NaN and silently disables it.
+
+export function positiveInt(value: string | undefined, fallback: number, min = 1): number {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+}
+
+// Without a fallback an invalid or missing value leaves the setting off
+export function positiveNumber(value: string | undefined): number | undefined;
+export function positiveNumber(value: string | undefined, fallback: number): number;
+export function positiveNumber(value: string | undefined, fallback?: number): number | undefined {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
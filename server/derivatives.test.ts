@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { renderDerivatives } from "./derivatives";
+
+const animatedGif = async () => {
+  const frames = await Promise.all(["#ff0000", "#00ff00", "#0000ff"].map(background =>
+    sharp({ create: { width: 400, height: 200, channels: 3, background } }).png().toBuffer()));
+  return sharp(frames, { join: { animated: true } }).gif().toBuffer();
+};
+
+describe("renderDerivatives", () => {
+  it("renders widths narrower than the original in the configured format", async () => {
+    const bytes = await sharp({ create: { width: 400, height: 200, channels: 3, background: "#808080" } }).png().toBuffer();
+    const rendered = await renderDerivatives(bytes, 400, { widths: [160, 640], format: "jpeg" });
+
+    expect(rendered.map(({ derivative }) => derivative)).toEqual([
+      { name: "w160", format: "jpeg", width: 160, height: 80, size: rendered[0].bytes.length },
+    ]);
+  });
+
+  it("keeps every frame of an animation, as WebP when the format cannot animate", async () => {
+    const rendered = await renderDerivatives(await animatedGif(), 400, { widths: [160], format: "jpeg" }, true);
+
+    expect(rendered[0].derivative).toMatchObject({ name: "w160", format: "webp", width: 160, height: 80 });
+    expect(await sharp(rendered[0].bytes).metadata()).toMatchObject({ format: "webp", pages: 3 });
+  });
+});
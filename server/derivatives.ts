@@ -0,0 +1,62 @@
+import sharp from "sharp";
+import type { ImageDerivative } from "@shared/schema";
+
+export type NewImageDerivative = Omit<ImageDerivative, "data">;
+
+export interface RenderedDerivative {
+  derivative: NewImageDerivative;
+  bytes: Buffer;
+}
+
+export interface DerivativeConfig {
+  widths: number[];
+  format: "webp" | "avif" | "jpeg" | "png";
+}
+
+const DERIVATIVE_FORMATS = ["webp", "avif", "jpeg", "png"] as const;
+
+// DERIVATIVE_WIDTHS="" disables upload-time derivatives entirely
+export function loadDerivativeConfig(env = process.env): DerivativeConfig {
+  const widths = (env.DERIVATIVE_WIDTHS ?? "160,640,1280")
+    .split(",")
+    .map(part => parseInt(part.trim(), 10))
+    .filter(width => Number.isInteger(width) && width > 0)
+    .sort((a, b) => a - b);
+
+  const format = DERIVATIVE_FORMATS.find(candidate => candidate === env.DERIVATIVE_FORMAT) ?? "webp";
+  return { widths, format };
+}
+
+// Formats Sharp can write with every frame of an animation
+const ANIMATED_FORMATS = new Set<DerivativeConfig["format"]>(["webp"]);
+
+// Renders one derivative per configured width narrower than the original. Animations keep all
+// their frames, as WebP when the configured format cannot animate.
+export async function renderDerivatives(
+  bytes: Buffer,
+  originalWidth: number | null,
+  config: DerivativeConfig,
+  animated = false,
+): Promise<RenderedDerivative[]> {
+  const widths = config.widths.filter(width => !originalWidth || width < originalWidth);
+  const format = animated && !ANIMATED_FORMATS.has(config.format) ? "webp" : config.format;
+
+  return Promise.all(widths.map(async (width) => {
+    const { data, info } = await sharp(bytes, { animated })
+      .resize({ width, withoutEnlargement: true })
+      .toColourspace("srgb")
+      .toFormat(format)
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      derivative: {
+        name: `w${width}`,
+        format,
+        width: info.width,
+        height: info.pageHeight ?? info.height, // one frame, not the stacked strip
+        size: data.length,
+      },
+      bytes: data,
+    };
+  }));
+}
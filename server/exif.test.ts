@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { sanitizeImage } from "./exif";
+
+const exif = { IFD0: { Make: "Camera" }, IFD3: { GPSLatitudeRef: "N", GPSLatitude: "1/1 2/1 3/1" } };
+
+const frames = () =>
+  Promise.all(["#ff0000", "#00ff00", "#0000ff"].map(background =>
+    sharp({ create: { width: 8, height: 8, channels: 3, background } }).png().toBuffer()));
+
+describe("sanitizeImage", () => {
+  it("strips EXIF and GPS from a still image", async () => {
+    const input = await sharp(await sharp({ create: { width: 8, height: 8, channels: 3, background: "#808080" } }).png().toBuffer())
+      .jpeg()
+      .withExif(exif)
+      .toBuffer();
+
+    const { buffer, exif: summary } = await sanitizeImage(input, true);
+    expect((await sharp(buffer).metadata()).exif).toBeUndefined();
+    expect(summary).toMatchObject({ make: "Camera", hadLocation: true, stripped: true });
+  });
+
+  it("strips EXIF and GPS from an animated image, keeping every frame", async () => {
+    const input = await sharp(await frames(), { join: { animated: true } }).webp().withExif(exif).toBuffer();
+    expect((await sharp(input).metadata()).exif).toBeDefined();
+
+    const { buffer, exif: summary } = await sanitizeImage(input, true);
+    const metadata = await sharp(buffer).metadata();
+    expect(metadata).toMatchObject({ format: "webp", pages: 3 });
+    expect(metadata.exif).toBeUndefined();
+    expect(summary).toMatchObject({ hadLocation: true, stripped: true });
+  });
+
+  it("keeps the metadata of an animated image when stripping is off", async () => {
+    const input = await sharp(await frames(), { join: { animated: true } }).webp().withExif(exif).toBuffer();
+
+    const { buffer, exif: summary } = await sanitizeImage(input, false);
+    expect(buffer).toBe(input);
+    expect(summary).toMatchObject({ hadLocation: true, stripped: false });
+  });
+});
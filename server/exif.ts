@@ -0,0 +1,95 @@
+import sharp from "sharp";
+import exifReader from "exif-reader";
+import type { ImageExifSummary } from "@shared/schema";
+import { ImageValidationError } from "./image-formats";
+
+// Formats Sharp can re-encode without losing animation or vector data
+const REENCODABLE_FORMATS = new Set(["jpeg", "png", "webp", "tiff", "heif"]);
+
+// STRIP_METADATA=false keeps EXIF/XMP/IPTC unless an upload asks otherwise
+export const stripMetadataByDefault = () => process.env.STRIP_METADATA !== "false";
+
+const isoDate = (value: unknown) =>
+  value instanceof Date && !Number.isNaN(value.getTime()) ? value.toISOString() : undefined;
+
+const text = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.replace(/\0/g, "").trim() : undefined;
+
+const number = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : undefined);
+
+// Picks the harmless, useful fields out of raw EXIF; GPS is only reported as present
+export function summarizeExif(raw: Buffer | undefined, orientation: number | undefined, stripped: boolean): ImageExifSummary | null {
+  let tags: ReturnType<typeof exifReader> | undefined;
+  try {
+    tags = raw ? exifReader(raw) : undefined;
+  } catch (error) {
+    console.error("Error parsing EXIF:", error);
+  }
+  if (!tags && !orientation) return null;
+
+  return {
+    make: text(tags?.Image?.Make),
+    model: text(tags?.Image?.Model),
+    lens: text(tags?.Photo?.LensModel),
+    software: text(tags?.Image?.Software),
+    capturedAt: isoDate(tags?.Photo?.DateTimeOriginal) ?? isoDate(tags?.Image?.DateTime),
+    orientation,
+    exposureTime: number(tags?.Photo?.ExposureTime),
+    fNumber: number(tags?.Photo?.FNumber),
+    iso: number(tags?.Photo?.ISOSpeedRatings),
+    focalLength: number(tags?.Photo?.FocalLength),
+    hadLocation: !!tags?.GPSInfo && Object.keys(tags.GPSInfo).length > 0,
+    stripped,
+  };
+}
+
+export interface SanitizedImage {
+  buffer: Buffer;
+  exif: ImageExifSummary | null;
+}
+
+// Applies the EXIF orientation to the pixels and, when `strip` is set, drops EXIF/XMP/IPTC.
+// The ICC profile is always kept so colours do not shift. Untouched images are returned as is.
+// Animated, multi-page and GIF images are not rotated, but still lose their metadata when asked.
+export async function sanitizeImage(buffer: Buffer, strip: boolean): Promise<SanitizedImage> {
+  const metadata = await sharp(buffer).metadata();
+  const format = metadata.format;
+  const hasMetadata = !!(metadata.exif || metadata.xmp || metadata.iptc);
+  const needsRotation = !!metadata.orientation && metadata.orientation !== 1;
+  const reencodable = !!format && REENCODABLE_FORMATS.has(format) && (metadata.pages ?? 1) === 1;
+
+  if (!reencodable && strip && hasMetadata) {
+    return { buffer: await forceStripMetadata(buffer), exif: summarizeExif(metadata.exif, metadata.orientation, true) };
+  }
+  if (!reencodable || (!needsRotation && !(strip && hasMetadata))) {
+    return { buffer, exif: summarizeExif(metadata.exif, metadata.orientation, false) };
+  }
+
+  let pipeline = sharp(buffer).rotate();
+  pipeline = strip ? pipeline.keepIccProfile() : pipeline.keepMetadata();
+  const output = await pipeline
+    .toFormat(format as keyof sharp.FormatEnum, { quality: 92 })
+    .toBuffer();
+
+  return { buffer: output, exif: summarizeExif(metadata.exif, metadata.orientation, strip && hasMetadata) };
+}
+
+// Metadata removal for images sanitizeImage cannot rotate, and its fallback when it fails: every
+// frame is decoded and re-encoded, which Sharp does without any metadata unless told to keep it.
+// Formats it cannot write become PNG.
+// Refuses the upload rather than store metadata the uploader asked to remove.
+export async function forceStripMetadata(buffer: Buffer): Promise<Buffer> {
+  try {
+    const metadata = await sharp(buffer).metadata();
+    const format = metadata.format && (REENCODABLE_FORMATS.has(metadata.format) || metadata.format === "gif")
+      ? metadata.format as keyof sharp.FormatEnum
+      : "png";
+    return await sharp(buffer, { animated: true })
+      .keepIccProfile()
+      .toFormat(format, { quality: 92 })
+      .toBuffer();
+  } catch (error) {
+    console.error("Error re-encoding image without metadata:", error);
+    throw new ImageValidationError("Image metadata could not be removed", 422, "metadata_strip_failed");
+  }
+}
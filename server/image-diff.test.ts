@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { diffImages, ImageDiffCache, type ImageDiff } from "./image-diff";
+
+const square = (background: string) =>
+  sharp({ create: { width: 32, height: 32, channels: 3, background } }).png().toBuffer();
+
+describe("diffImages", () => {
+  it("reports changed pixels and their region", async () => {
+    const base = await square("#ffffff");
+    const compare = await sharp(base)
+      .composite([{ input: await sharp({ create: { width: 4, height: 4, channels: 3, background: "#000000" } }).png().toBuffer(), left: 8, top: 16 }])
+      .png()
+      .toBuffer();
+
+    const diff = await diffImages(base, compare, 0.1);
+    expect(diff).toMatchObject({ width: 32, height: 32, changedPixels: 16 });
+    expect(diff.regions).toEqual([{ x: 8, y: 16, width: 4, height: 4, changedPixels: 16 }]);
+    expect((await sharp(diff.image).metadata()).format).toBe("png");
+  });
+
+  it("finds nothing between identical images", async () => {
+    const image = await square("#336699");
+    expect(await diffImages(image, image, 0)).toMatchObject({ changedPixels: 0, regions: [] });
+  });
+});
+
+describe("ImageDiffCache", () => {
+  const result = { width: 1, height: 1, changedPixels: 0, changedPercent: 0, regions: [], image: Buffer.alloc(0) } satisfies ImageDiff;
+
+  it("computes each key once and evicts the least recently used", async () => {
+    const cache = new ImageDiffCache(2);
+    let computed = 0;
+    const compute = async () => {
+      computed++;
+      return result;
+    };
+
+    await Promise.all([cache.get("a", compute), cache.get("a", compute)]);
+    await cache.get("b", compute);
+    await cache.get("a", compute);
+    await cache.get("c", compute); // evicts b
+    expect(computed).toBe(3);
+
+    await cache.get("a", compute);
+    await cache.get("b", compute);
+    expect(computed).toBe(4);
+  });
+
+  it("does not keep missing or failed diffs", async () => {
+    const cache = new ImageDiffCache(2);
+    expect(await cache.get("a", async () => undefined)).toBeUndefined();
+    await expect(cache.get("b", async () => { throw new Error("decode failed"); })).rejects.toThrow("decode failed");
+
+    expect(await cache.get("a", async () => result)).toBe(result);
+    expect(await cache.get("b", async () => result)).toBe(result);
+  });
+});
@@ -0,0 +1,168 @@
+import sharp from "sharp";
+import type { ImageDiffRegion } from "@shared/schema";
+
+export interface ImageDiff {
+  width: number;
+  height: number;
+  changedPixels: number;
+  changedPercent: number;
+  regions: ImageDiffRegion[]; // largest first
+  image: Buffer; // PNG: unchanged pixels faded to grey, changed ones in red
+}
+
+// Changed pixels in touching CELL_SIZE × CELL_SIZE cells are reported as one region
+const CELL_SIZE = 8;
+const MAX_REGIONS = 100;
+
+// RGBA pixels of the first frame, padded with transparency to the common canvas size
+function decodeRgba(bytes: Buffer, metadata: sharp.Metadata, width: number, height: number): Promise<Buffer> {
+  return sharp(bytes, { pages: 1 })
+    .toColourspace("srgb")
+    .ensureAlpha()
+    .extend({
+      right: width - (metadata.width ?? width),
+      bottom: height - (metadata.height ?? height),
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    })
+    .raw()
+    .toBuffer();
+}
+
+// Groups changed cells into 8-connected regions and returns their pixel bounding boxes
+function findRegions(changed: Uint8Array, width: number, height: number): ImageDiffRegion[] {
+  const columns = Math.ceil(width / CELL_SIZE);
+  const rows = Math.ceil(height / CELL_SIZE);
+  const cells = new Map<number, ImageDiffRegion>();
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!changed[y * width + x]) continue;
+      const key = Math.floor(y / CELL_SIZE) * columns + Math.floor(x / CELL_SIZE);
+      const cell = cells.get(key);
+      // Rows are scanned top-down, so a cell's top edge is fixed by its first pixel
+      if (!cell) {
+        cells.set(key, { x, y, width: 1, height: 1, changedPixels: 1 });
+        continue;
+      }
+      const right = Math.max(cell.x + cell.width, x + 1);
+      const bottom = Math.max(cell.y + cell.height, y + 1);
+      cell.x = Math.min(cell.x, x);
+      cell.width = right - cell.x;
+      cell.height = bottom - cell.y;
+      cell.changedPixels += 1;
+    }
+  }
+
+  const regions: ImageDiffRegion[] = [];
+  const visited = new Set<number>();
+  Array.from(cells.keys()).forEach(start => {
+    if (visited.has(start)) return;
+    visited.add(start);
+    const region = { ...cells.get(start)! };
+    const queue = [start];
+    while (queue.length > 0) {
+      const key = queue.pop()!;
+      const row = Math.floor(key / columns);
+      const column = key % columns;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const neighbourRow = row + dy;
+          const neighbourColumn = column + dx;
+          if (neighbourRow < 0 || neighbourRow >= rows || neighbourColumn < 0 || neighbourColumn >= columns) continue;
+          const neighbour = neighbourRow * columns + neighbourColumn;
+          const cell = cells.get(neighbour);
+          if (!cell || visited.has(neighbour)) continue;
+          visited.add(neighbour);
+          queue.push(neighbour);
+          const right = Math.max(region.x + region.width, cell.x + cell.width);
+          const bottom = Math.max(region.y + region.height, cell.y + cell.height);
+          region.x = Math.min(region.x, cell.x);
+          region.y = Math.min(region.y, cell.y);
+          region.width = right - region.x;
+          region.height = bottom - region.y;
+          region.changedPixels += cell.changedPixels;
+        }
+      }
+    }
+    regions.push(region);
+  });
+
+  return regions.sort((a, b) => b.changedPixels - a.changedPixels).slice(0, MAX_REGIONS);
+}
+
+// Compares two images pixel by pixel. A pixel counts as changed when any RGBA channel differs
+// by more than `threshold` (0-1). Images of different sizes are compared on the larger canvas.
+export async function diffImages(base: Buffer, compare: Buffer, threshold: number): Promise<ImageDiff> {
+  const [baseMeta, compareMeta] = await Promise.all([
+    sharp(base, { pages: 1 }).metadata(),
+    sharp(compare, { pages: 1 }).metadata(),
+  ]);
+  const width = Math.max(baseMeta.width ?? 0, compareMeta.width ?? 0);
+  const height = Math.max(baseMeta.height ?? 0, compareMeta.height ?? 0);
+
+  const [a, b] = await Promise.all([
+    decodeRgba(base, baseMeta, width, height),
+    decodeRgba(compare, compareMeta, width, height),
+  ]);
+  const changed = new Uint8Array(width * height);
+  const output = Buffer.alloc(width * height * 4);
+  const limit = threshold * 255;
+  let changedPixels = 0;
+
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const offset = pixel * 4;
+    let delta = 0;
+    for (let channel = 0; channel < 4; channel++) {
+      delta = Math.max(delta, Math.abs(a[offset + channel] - b[offset + channel]));
+    }
+
+    if (delta > limit) {
+      changed[pixel] = 1;
+      changedPixels += 1;
+      output[offset] = 255;
+      output[offset + 1] = 0;
+      output[offset + 2] = 0;
+    } else {
+      // Faint greyscale of the base image for context
+      const luminance = 0.299 * a[offset] + 0.587 * a[offset + 1] + 0.114 * a[offset + 2];
+      const grey = 255 + (luminance - 255) * 0.1 * (a[offset + 3] / 255);
+      output[offset] = output[offset + 1] = output[offset + 2] = grey;
+    }
+    output[offset + 3] = 255;
+  }
+
+  return {
+    width,
+    height,
+    changedPixels,
+    changedPercent: width * height ? (changedPixels / (width * height)) * 100 : 0,
+    regions: findRegions(changed, width, height),
+    image: await sharp(output, { raw: { width, height, channels: 4 } }).png().toBuffer(),
+  };
+}
+
+// Recent diffs by base, compared image and threshold, least recently used first. Stored images
+// never change, so an entry stays valid until evicted; concurrent requests share a pending diff.
+export class ImageDiffCache {
+  private entries = new Map<string, Promise<ImageDiff | undefined>>();
+
+  constructor(private maxEntries: number) {}
+
+  // `compute` resolves to undefined when there is nothing to compare; that is not cached
+  get(key: string, compute: () => Promise<ImageDiff | undefined>): Promise<ImageDiff | undefined> {
+    let diff = this.entries.get(key);
+    if (diff) {
+      this.entries.delete(key); // moved to the most recently used end
+    } else {
+      const pending = compute();
+      const drop = () => this.entries.get(key) === pending && this.entries.delete(key);
+      pending.then(result => result ?? drop(), drop);
+      diff = pending;
+    }
+    this.entries.set(key, diff);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return diff;
+  }
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { sniffFormat, declaredTypeMatches, trailingDataLength } from "./magic-bytes";
+import { assertSupportedMimeType, normalizeImage, type IngestLimits } from "./image-formats";
+
+const limits: IngestLimits = { maxPixels: 1_000_000, maxDimension: 1000 };
+
+const image = (width = 8, height = 8) =>
+  sharp({ create: { width, height, channels: 3, background: "#336699" } });
+
+// ISOBMFF file type box with the given brands, as AVIF and HEIC files start
+const ftyp = (major: string, ...compatible: string[]) => {
+  const box = Buffer.alloc(16 + 4 * compatible.length);
+  box.writeUInt32BE(box.length, 0);
+  box.write("ftyp", 4, "latin1");
+  box.write(major, 8, "latin1");
+  compatible.forEach((brand, i) => box.write(brand, 16 + 4 * i, "latin1"));
+  return box;
+};
+
+const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><rect width="10" height="10"/></svg>';
+
+describe("sniffFormat", () => {
+  it("recognizes JPEG", async () => {
+    expect(sniffFormat(await image().jpeg().toBuffer())).toBe("jpeg");
+  });
+
+  it("recognizes PNG", async () => {
+    expect(sniffFormat(await image().png().toBuffer())).toBe("png");
+  });
+
+  it("recognizes GIF", async () => {
+    expect(sniffFormat(await image().gif().toBuffer())).toBe("gif");
+  });
+
+  it("recognizes WebP", async () => {
+    expect(sniffFormat(await image().webp().toBuffer())).toBe("webp");
+  });
+
+  it("recognizes TIFF in both byte orders", async () => {
+    expect(sniffFormat(await image().tiff().toBuffer())).toBe("tiff");
+    expect(sniffFormat(Buffer.from("MM\0*\0\0\0\x08", "latin1"))).toBe("tiff");
+  });
+
+  it("recognizes AVIF by its brand", async () => {
+    expect(sniffFormat(await image().avif().toBuffer())).toBe("avif");
+    expect(sniffFormat(ftyp("mif1", "avif"))).toBe("avif");
+  });
+
+  it("recognizes HEIC by its brand", () => {
+    expect(sniffFormat(ftyp("heic", "mif1"))).toBe("heic");
+  });
+
+  it("recognizes SVG, after an XML declaration and comments", () => {
+    expect(sniffFormat(Buffer.from(svg))).toBe("svg");
+    expect(sniffFormat(Buffer.from(`<?xml version="1.0"?>\n<!-- logo -->\n${svg}`))).toBe("svg");
+  });
+
+  it("recognizes nothing else", () => {
+    expect(sniffFormat(Buffer.from("%PDF-1.7\n"))).toBeUndefined();
+    expect(sniffFormat(ftyp("isom", "mp42"))).toBeUndefined();
+    expect(sniffFormat(Buffer.from("<html><svg></svg></html>"))).toBeUndefined();
+  });
+});
+
+describe("declaredTypeMatches", () => {
+  it("compares the declared type with the sniffed format", () => {
+    expect(declaredTypeMatches("image/png", "png")).toBe(true);
+    expect(declaredTypeMatches("IMAGE/JPEG; charset=binary", "jpeg")).toBe(true);
+    expect(declaredTypeMatches("image/heif", "avif")).toBe(true);
+    expect(declaredTypeMatches("image/png", "jpeg")).toBe(false);
+    expect(declaredTypeMatches("text/html", "svg")).toBe(false);
+  });
+});
+
+describe("trailingDataLength", () => {
+  it("tolerates zero padding", async () => {
+    const png = await image().png().toBuffer();
+    expect(trailingDataLength(Buffer.concat([png, Buffer.alloc(16)]), "png")).toBe(0);
+  });
+
+  it("counts the bytes after the image", async () => {
+    const gif = await image().gif().toBuffer();
+    expect(trailingDataLength(Buffer.concat([gif, Buffer.from("payload")]), "gif")).toBe(7);
+  });
+});
+
+describe("assertSupportedMimeType", () => {
+  it("rejects types outside the supported formats with 415", () => {
+    expect(() => assertSupportedMimeType("image/bmp")).toThrow(expect.objectContaining({ status: 415, code: "unsupported_type" }));
+    expect(() => assertSupportedMimeType("image/png")).not.toThrow();
+  });
+});
+
+describe("normalizeImage", () => {
+  it("keeps supported images as they are", async () => {
+    const png = await image().png().toBuffer();
+    expect(await normalizeImage(png, { rasterizeSvg: false, limits, declaredType: "image/png" })).toEqual({ buffer: png, format: "png" });
+  });
+
+  it("keeps only the primary image of a multi-image JPEG", async () => {
+    const primary = await image().jpeg().toBuffer();
+    const mpo = Buffer.concat([primary, await image(4, 4).jpeg().toBuffer()]);
+    const { buffer } = await normalizeImage(mpo, { rasterizeSvg: false, limits });
+    expect(buffer.equals(primary)).toBe(true);
+  });
+
+  it("rejects unrecognized data with 415", async () => {
+    await expect(normalizeImage(Buffer.from("%PDF-1.7\n"), { rasterizeSvg: false, limits }))
+      .rejects.toMatchObject({ status: 415, code: "unsupported_format" });
+  });
+
+  it("rejects a declared type that does not match the bytes with 415", async () => {
+    const jpeg = await image().jpeg().toBuffer();
+    await expect(normalizeImage(jpeg, { rasterizeSvg: false, limits, declaredType: "image/png" }))
+      .rejects.toMatchObject({ status: 415, code: "type_mismatch" });
+  });
+
+  it("rejects images wider or taller than the limit with 413", async () => {
+    const png = await image(1200, 10).png().toBuffer();
+    await expect(normalizeImage(png, { rasterizeSvg: false, limits }))
+      .rejects.toMatchObject({ status: 413, code: "dimensions_exceeded" });
+  });
+
+  it("rejects decompression bombs from the header, before decoding, with 413", async () => {
+    // A few kilobytes of a single colour that would decode to 900,000 pixels
+    const png = await image(1000, 900).png({ compressionLevel: 9 }).toBuffer();
+    expect(png.length).toBeLessThan(50_000);
+    await expect(normalizeImage(png, { rasterizeSvg: false, limits: { maxPixels: 500_000, maxDimension: 16384 } }))
+      .rejects.toMatchObject({ status: 413, code: "too_many_pixels" });
+  });
+
+  it("counts every frame of an animation towards the pixel limit", async () => {
+    const frames = await Promise.all(["#ff0000", "#00ff00", "#0000ff"].map(background =>
+      sharp({ create: { width: 100, height: 100, channels: 3, background } }).png().toBuffer()));
+    const gif = await sharp(frames, { join: { animated: true } }).gif().toBuffer();
+    await expect(normalizeImage(gif, { rasterizeSvg: false, limits: { maxPixels: 25_000, maxDimension: 1000 } }))
+      .rejects.toMatchObject({ status: 413, code: "too_many_pixels" });
+  });
+
+  it("rejects data appended after the image with 400", async () => {
+    const jpeg = await image().jpeg().toBuffer();
+    const polyglot = Buffer.concat([jpeg, Buffer.from("PK\x03\x04 appended archive", "latin1")]);
+    await expect(normalizeImage(polyglot, { rasterizeSvg: false, limits }))
+      .rejects.toMatchObject({ status: 400, code: "trailing_data" });
+  });
+
+  it("rejects corrupt data behind a valid signature with 400", async () => {
+    const png = await image().png().toBuffer();
+    await expect(normalizeImage(png.subarray(0, 20), { rasterizeSvg: false, limits }))
+      .rejects.toMatchObject({ status: 400, code: "invalid_image" });
+  });
+
+  it("rejects SVG with DOCTYPE or ENTITY declarations", async () => {
+    // Before the root element the declaration keeps the file from being recognized as SVG at all
+    const xxe = `<?xml version="1.0"?><!DOCTYPE svg [<!ENTITY x SYSTEM "file:///etc/passwd">]>${svg}`;
+    await expect(normalizeImage(Buffer.from(xxe), { rasterizeSvg: false, limits }))
+      .rejects.toMatchObject({ status: 415, code: "unsupported_format" });
+
+    const inline = svg.replace("<rect", '<!ENTITY x SYSTEM "file:///etc/passwd"><rect');
+    await expect(normalizeImage(Buffer.from(inline), { rasterizeSvg: false, limits }))
+      .rejects.toMatchObject({ status: 400, code: "unsafe_svg" });
+  });
+});
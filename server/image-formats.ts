@@ -0,0 +1,190 @@
+import sharp from "sharp";
+import { sniffFormat, declaredTypeMatches, trailingDataLength, stripAppendedImages } from "./magic-bytes";
+import { sanitizeSvgDocument } from "./svg-sanitizer";
+import { positiveInt } from "./config";
+
+// MIME types accepted by every upload route
+export const SUPPORTED_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/avif",
+  "image/heic",
+  "image/heif",
+  "image/tiff",
+  "image/svg+xml",
+];
+
+export const SUPPORTED_FORMATS_LABEL = "JPEG, PNG, GIF, WebP, AVIF, HEIC/HEIF, TIFF and SVG";
+
+export const isSupportedMimeType = (mimeType: string | null | undefined) =>
+  !!mimeType && SUPPORTED_MIME_TYPES.includes(mimeType.split(";")[0].trim().toLowerCase());
+
+// Thrown while ingesting an upload that we refuse to store; `status` is the HTTP status to answer with
+// and `code` a stable identifier clients can switch on
+export class ImageValidationError extends Error {
+  constructor(message: string, public status = 415, public code = "unsupported_format") {
+    super(message);
+    this.name = "ImageValidationError";
+  }
+}
+
+export function assertSupportedMimeType(mimeType: string) {
+  if (!isSupportedMimeType(mimeType)) {
+    throw new ImageValidationError(`Unsupported image type ${mimeType}. Supported formats: ${SUPPORTED_FORMATS_LABEL}.`, 415, "unsupported_type");
+  }
+}
+
+export interface IngestLimits {
+  maxPixels: number; // width × height × frames
+  maxDimension: number;
+}
+
+export function loadIngestLimits(env = process.env): IngestLimits {
+  return {
+    maxPixels: positiveInt(env.INGEST_MAX_PIXELS, 100_000_000),
+    maxDimension: positiveInt(env.INGEST_MAX_DIMENSION, 16384),
+  };
+}
+
+// Checked against the header only, so a tiny file declaring a huge canvas is never decoded
+export function assertWithinLimits(metadata: Pick<sharp.Metadata, "width" | "height">, limits: IngestLimits, frames: number) {
+  const width = metadata.width ?? 0;
+  const height = metadata.height ?? 0;
+  if (width > limits.maxDimension || height > limits.maxDimension) {
+    throw new ImageValidationError(
+      `Image dimensions ${width}x${height} exceed the maximum of ${limits.maxDimension}px per side`,
+      413,
+      "dimensions_exceeded",
+    );
+  }
+  if (width * height * frames > limits.maxPixels) {
+    throw new ImageValidationError(
+      `Image has ${width * height * frames} pixels, more than the maximum of ${limits.maxPixels}`,
+      413,
+      "too_many_pixels",
+    );
+  }
+}
+
+// Splits a `data:image/...;base64,` URI; plain base64 strings have no declared type
+export function parseDataUri(data: string): { mimeType?: string; base64: string } {
+  const match = data.match(/^data:([a-z]+\/[a-z0-9.+-]+);base64,/i);
+  if (!match) return { base64: data };
+  return { mimeType: match[1].toLowerCase(), base64: data.slice(match[0].length) };
+}
+
+// Sharp reports AVIF and HEIC both as `heif`; tell them apart by compression
+export function normalizeFormat(metadata: sharp.Metadata): string | undefined {
+  if (metadata.format === "heif") {
+    return metadata.compression === "av1" ? "avif" : "heic";
+  }
+  return metadata.format;
+}
+
+// Formats Sharp can write to a buffer (`avif` is an alias of its `heif` encoder)
+export const isSharpOutputFormat = (format: string | null | undefined): format is keyof sharp.FormatEnum =>
+  !!format && (format === "avif" || !!sharp.format[format as keyof sharp.FormatEnum]?.output.buffer);
+
+// Rebuilds an SVG from allowlisted elements and attributes (see svg-sanitizer.ts), so nothing that
+// can run script or fetch external resources survives, however it is encoded.
+// Documents with a DOCTYPE/ENTITY declaration are refused outright (XXE, entity expansion).
+export function sanitizeSvg(svg: string): string {
+  if (/<!DOCTYPE|<!ENTITY/i.test(svg)) {
+    throw new ImageValidationError("SVG files with DOCTYPE or ENTITY declarations are not allowed", 400, "unsafe_svg");
+  }
+  const sanitized = sanitizeSvgDocument(svg);
+  if (sanitized === undefined) {
+    throw new ImageValidationError("SVG file has no <svg> root element", 400, "invalid_image");
+  }
+  return sanitized;
+}
+
+export interface NormalizedImage {
+  buffer: Buffer;
+  format: string;
+}
+
+// SVG_MODE=rasterize stores SVG uploads as PNG instead of sanitized SVG
+export const rasterizeSvgByDefault = () => process.env.SVG_MODE === "rasterize";
+
+export interface NormalizeOptions {
+  rasterizeSvg: boolean;
+  limits: IngestLimits;
+  declaredType?: string; // MIME type claimed by the client, if any
+}
+
+// Detects the real format from the bytes and converts what browsers cannot show:
+// TIFF keeps only its first page as PNG, HEIC becomes JPEG, SVG is sanitized or rasterized.
+// Rejects type mismatches, appended payloads and images over the pixel limits before decoding.
+// Multi-image JPEGs keep only their primary image.
+export async function normalizeImage(buffer: Buffer, options: NormalizeOptions): Promise<NormalizedImage> {
+  const sniffed = sniffFormat(buffer);
+  if (!sniffed) {
+    throw new ImageValidationError(`Unrecognized image data. Supported formats: ${SUPPORTED_FORMATS_LABEL}.`);
+  }
+  if (options.declaredType && !declaredTypeMatches(options.declaredType, sniffed)) {
+    throw new ImageValidationError(
+      `Declared type ${options.declaredType} does not match the file contents (${sniffed})`,
+      415,
+      "type_mismatch",
+    );
+  }
+  const trailing = trailingDataLength(buffer, sniffed);
+  if (trailing > 0) {
+    throw new ImageValidationError(`Image has ${trailing} bytes of unexpected data after its end`, 400, "trailing_data");
+  }
+  buffer = stripAppendedImages(buffer, sniffed);
+
+  const { limits } = options;
+  const input = { limitInputPixels: limits.maxPixels };
+  // Reading the header is safe at any size; the limit is applied by assertWithinLimits with a clear error
+  const header = { limitInputPixels: false as const };
+
+  if (sniffed === "svg") {
+    const sanitized = Buffer.from(sanitizeSvg(buffer.toString("utf8")), "utf8");
+    const metadata = await sharp(sanitized, header).metadata().catch(() => {
+      throw new ImageValidationError("SVG file could not be parsed", 400, "invalid_image");
+    });
+    assertWithinLimits(metadata, limits, 1);
+    if (options.rasterizeSvg) {
+      return { buffer: await sharp(sanitized, input).png().toBuffer(), format: "png" };
+    }
+    return { buffer: sanitized, format: "svg" };
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer, header).metadata();
+  } catch {
+    throw new ImageValidationError(`Image data is corrupt or truncated (${sniffed})`, 400, "invalid_image");
+  }
+
+  // The decoder must see the same container the signature claimed, or the file is a polyglot
+  const format = normalizeFormat(metadata);
+  if (format !== sniffed && !(metadata.format === "heif" && (sniffed === "avif" || sniffed === "heic"))) {
+    throw new ImageValidationError(`File signature (${sniffed}) does not match its decoded format (${format})`, 415, "type_mismatch");
+  }
+  assertWithinLimits(metadata, limits, format === "gif" || format === "webp" ? metadata.pages ?? 1 : 1);
+
+  switch (format) {
+    case "jpeg":
+    case "png":
+    case "gif":
+    case "webp":
+    case "avif":
+      return { buffer, format };
+    case "tiff":
+      return { buffer: await sharp(buffer, { ...input, page: 0 }).keepIccProfile().png().toBuffer(), format: "png" };
+    case "heic":
+      try {
+        // Metadata is kept so the EXIF step can still apply the orientation and summarize it
+        return { buffer: await sharp(buffer, input).keepMetadata().jpeg({ quality: 92 }).toBuffer(), format: "jpeg" };
+      } catch {
+        throw new ImageValidationError("HEIC images cannot be decoded by this server; upload JPEG or AVIF instead");
+      }
+    default:
+      throw new ImageValidationError(`Unsupported image format${format ? ` "${format}"` : ""}. Supported formats: ${SUPPORTED_FORMATS_LABEL}.`);
+  }
+}
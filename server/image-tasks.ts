@@ -0,0 +1,183 @@
+import sharp from "sharp";
+import { promises as fs } from "fs";
+import { createHash } from "crypto";
+import type { ImageExifSummary, RawPixelFormat, WatermarkProfile } from "@shared/schema";
+import { sanitizeImage, forceStripMetadata } from "./exif";
+import { normalizeImage, normalizeFormat, ImageValidationError, type IngestLimits } from "./image-formats";
+import { describeAnimation, convertAnimatedGif, renderPoster } from "./animation";
+import { renderDerivatives, type DerivativeConfig, type RenderedDerivative } from "./derivatives";
+import { computePlaceholder, type ImagePlaceholder } from "./placeholder";
+import { perceptualHash } from "./perceptual-hash";
+import { applyWatermark } from "./watermark";
+import { describeColor } from "./color-profile";
+import { rawToPng } from "./raw-pixels";
+import { renderStreamFrame } from "./mjpeg-stream";
+import { diffImages } from "./image-diff";
+import { writeTempFile } from "./upload-intake";
+
+// The CPU-heavy stages of an upload. They run on the worker pool, so arguments and results
+// must survive structured cloning: plain objects, arrays, Buffers and Dates only.
+
+export interface PrepareUploadOptions {
+  rasterizeSvg: boolean;
+  limits: IngestLimits;
+  declaredType?: string;
+  stripMetadata: boolean;
+  animatedToWebp: boolean;
+  watermark?: { profile: WatermarkProfile; logo?: Buffer }; // applied to the stored bytes
+  perceptualHash: boolean; // also compute the perceptual hash, for near-duplicate checks
+}
+
+export interface PreparedUpload {
+  file: string; // temp file holding the bytes to store; the caller removes it
+  format: string;
+  hash: string; // SHA-256 of the bytes to store
+  phash?: string;
+  info: ImageInfo;
+  exif: ImageExifSummary | null;
+  watermarked: boolean;
+}
+
+// Detects the real format, converts TIFF/HEIC, sanitizes SVG, auto-rotates, strips metadata and
+// bakes in an ingest watermark, then hashes and describes the bytes to store. Uploads arrive and
+// leave as temp files, so only the worker ever holds them in memory, and only once.
+async function prepareUpload(upload: Buffer | string, options: PrepareUploadOptions): Promise<PreparedUpload> {
+  const uploadBuffer = typeof upload === "string" ? await fs.readFile(upload) : upload;
+  const normalized = await normalizeImage(uploadBuffer, {
+    rasterizeSvg: options.rasterizeSvg,
+    limits: options.limits,
+    declaredType: options.declaredType,
+  });
+
+  let buffer = normalized.buffer;
+  let exif: ImageExifSummary | null = null;
+  try {
+    ({ buffer, exif } = await sanitizeImage(buffer, options.stripMetadata));
+  } catch (error) {
+    // Metadata that could not be removed at all refuses the upload
+    if (error instanceof ImageValidationError) throw error;
+    console.error("Error sanitizing image:", error);
+    if (options.stripMetadata) {
+      buffer = await forceStripMetadata(buffer);
+    }
+  }
+
+  if (options.animatedToWebp) {
+    try {
+      buffer = (await convertAnimatedGif(buffer)) ?? buffer;
+    } catch (error) {
+      console.error("Error converting animated GIF:", error);
+    }
+  }
+
+  let watermarked = false;
+  if (options.watermark) {
+    const result = await applyWatermark(buffer, options.watermark.profile, options.watermark.logo, 92);
+    if (result) {
+      buffer = result.data;
+      watermarked = true;
+    }
+  }
+
+  return {
+    file: await writeTempFile(buffer),
+    format: normalized.format,
+    hash: createHash("sha256").update(buffer).digest("hex"),
+    phash: options.perceptualHash ? await hashImage(buffer) : undefined,
+    info: await describeImage(buffer),
+    exif,
+    watermarked,
+  };
+}
+
+// Raw pixel uploads become a PNG first, in a temp file, and are then prepared like any other upload
+async function encodeRawPixels(upload: Buffer | string, format: RawPixelFormat, limits: IngestLimits): Promise<string> {
+  return writeTempFile(await rawToPng(typeof upload === "string" ? await fs.readFile(upload) : upload, format, limits));
+}
+
+export interface ImageInfo {
+  width?: number;
+  height?: number;
+  format?: string;
+  size: number;
+  animation?: ReturnType<typeof describeAnimation>;
+  color?: ReturnType<typeof describeColor>;
+}
+
+// Dimensions, animation and colour of the bytes about to be stored; only the header is read
+async function describeImage(buffer: Buffer): Promise<ImageInfo> {
+  try {
+    const metadata = await sharp(buffer).metadata();
+    const animation = describeAnimation(metadata);
+    return {
+      width: metadata.width,
+      height: animation?.pageHeight ?? metadata.height,
+      format: normalizeFormat(metadata),
+      size: buffer.length,
+      animation,
+      color: describeColor(metadata),
+    };
+  } catch (error) {
+    console.error("Error getting image metadata:", error);
+    return { format: "unknown", size: buffer.length };
+  }
+}
+
+// Perceptual hash, or undefined when the image cannot be hashed
+async function hashImage(buffer: Buffer): Promise<string | undefined> {
+  try {
+    return await perceptualHash(buffer);
+  } catch (error) {
+    console.error("Perceptual hash error:", error);
+    return undefined;
+  }
+}
+
+export interface ImageAnalysis {
+  placeholder?: ImagePlaceholder;
+  phash?: string;
+}
+
+// Loading placeholder and perceptual hash of a stored image
+async function analyzeImage(buffer: Buffer): Promise<ImageAnalysis> {
+  let placeholder: ImagePlaceholder | undefined;
+  try {
+    placeholder = await computePlaceholder(buffer);
+  } catch (error) {
+    console.error("Placeholder generation error:", error);
+  }
+  return { placeholder, phash: await hashImage(buffer) };
+}
+
+// Responsive widths, plus a poster frame for animations
+async function renderImageDerivatives(
+  buffer: Buffer,
+  width: number | null,
+  config: DerivativeConfig,
+  animated: boolean,
+): Promise<RenderedDerivative[]> {
+  const rendered = await renderDerivatives(buffer, width, config, animated);
+  if (animated) {
+    rendered.push(await renderPoster(buffer));
+  }
+  return rendered;
+}
+
+// Watermark logos are validated like uploads and kept as a single-frame PNG
+async function prepareLogo(buffer: Buffer, limits: IngestLimits, declaredType?: string): Promise<Buffer> {
+  const normalized = await normalizeImage(buffer, { rasterizeSvg: true, limits, declaredType });
+  return sharp(normalized.buffer, { pages: 1 }).png().toBuffer();
+}
+
+export const imageTasks = {
+  prepareUpload,
+  encodeRawPixels,
+  analyzeImage,
+  renderImageDerivatives,
+  prepareLogo,
+  renderStreamFrame,
+  diffImages,
+};
+
+export type ImageTasks = typeof imageTasks;
+export type ImageTaskName = keyof ImageTasks;
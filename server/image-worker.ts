@@ -0,0 +1,16 @@
+import { parentPort } from "worker_threads";
+import { imageTasks, type ImageTaskName } from "./image-tasks";
+import { reviveBuffers, type WorkerRequest, type WorkerResponse } from "./worker-pool";
+
+// Worker thread entrypoint: runs one image task at a time for the pool in worker-pool.ts
+parentPort?.on("message", async ({ id, task, args }: WorkerRequest) => {
+  let response: WorkerResponse;
+  try {
+    const run = imageTasks[task as ImageTaskName] as (...args: unknown[]) => Promise<unknown>;
+    response = { id, result: await run(...(reviveBuffers(args) as unknown[])) };
+  } catch (error) {
+    const { name, message, status, code } = error as { name?: string; message?: string; status?: number; code?: string };
+    response = { id, error: { name: name ?? "Error", message: message ?? String(error), status, code } };
+  }
+  parentPort?.postMessage(response);
+});
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage, DrizzleStorage } from "./storage";
 
 const app = express();
 
@@ -9,11 +10,15 @@ declare module 'http' {
     rawBody: unknown
   }
 }
-app.use(express.json({
+const jsonParser = express.json({
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
-}));
+});
+// JSON image uploads and watermark logos are parsed by their routes, with the upload size limit of the request
+const parsedByRoute = (req: Request) =>
+  req.path === "/api/v1/image/upload" || (req.method === "PUT" && req.path.startsWith("/api/v1/admin/watermarks/"));
+app.use((req, res, next) => parsedByRoute(req) ? next() : jsonParser(req, res, next));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -47,6 +52,14 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Older releases kept base64 data URIs in the images table
+  if (storage instanceof DrizzleStorage) {
+    const migrated = await storage.migrateDataUris();
+    if (migrated > 0) {
+      log(`migrated ${migrated} data URI image(s) to the blob store`);
+    }
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Job } from "@shared/schema";
+import { JobQueue, type JobHandler, type JobQueueConfig } from "./job-queue";
+import type { IStorage } from "./storage";
+import { storageImplementations } from "./test-storage";
+
+const config: JobQueueConfig = { concurrency: 2, maxAttempts: 3, retryDelayMs: 50 };
+
+const storeImage = (storage: IStorage) =>
+  storage.storeImage({ type: "upload", filename: "a.png", format: "png", width: 1, height: 1, size: 1 }, Buffer.from("a"));
+
+describe.each(storageImplementations)("JobQueue on %s", (_name, create) => {
+  let storage: IStorage;
+  let queue: JobQueue | undefined;
+  let progress: Job[];
+  let completed: Job[];
+
+  const start = (handlers: Record<string, JobHandler>, overrides: Partial<JobQueueConfig> = {}) => {
+    queue = new JobQueue(storage, handlers, { ...config, ...overrides }, {
+      progress: job => progress.push(job),
+      complete: job => completed.push(job),
+    });
+    return queue;
+  };
+
+  beforeEach(async () => {
+    storage = await create();
+    progress = [];
+    completed = [];
+    // Failed attempts are logged; keep the test output readable
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    queue?.stop();
+    queue = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it("runs a job and records its progress", async () => {
+    const image = await storeImage(storage);
+    const job = await start({
+      work: async (_job, report) => {
+        await report(50, "half");
+      },
+    }).enqueue("work", image.id);
+
+    await vi.waitFor(() => expect(completed).toHaveLength(1));
+    expect(completed[0]).toMatchObject({ id: job.id, status: "completed", progress: 100, attempts: 1, error: null });
+    expect(progress.map(update => [update.status, update.progress, update.step])).toEqual([
+      ["running", 0, null],
+      ["running", 50, "half"],
+    ]);
+    expect(await storage.getJob(job.id)).toMatchObject({ status: "completed" });
+  });
+
+  it("retries a failing job with a doubling delay", async () => {
+    const image = await storeImage(storage);
+    const attemptedAt: number[] = [];
+    const job = await start({
+      work: async () => {
+        attemptedAt.push(Date.now());
+        if (attemptedAt.length < 3) throw new Error(`failure ${attemptedAt.length}`);
+      },
+    }).enqueue("work", image.id);
+
+    await vi.waitFor(() => expect(completed).toHaveLength(1), { timeout: 5000 });
+    expect(completed[0]).toMatchObject({ id: job.id, status: "completed", attempts: 3 });
+
+    const retries = progress.filter(update => update.status === "queued");
+    expect(retries.map(retry => retry.error)).toEqual(["failure 1", "failure 2"]);
+    expect(attemptedAt[1] - attemptedAt[0]).toBeGreaterThanOrEqual(config.retryDelayMs);
+    expect(attemptedAt[2] - attemptedAt[1]).toBeGreaterThanOrEqual(config.retryDelayMs * 2);
+  });
+
+  it("fails a job after its last attempt", async () => {
+    const image = await storeImage(storage);
+    let attempts = 0;
+    const job = await start({
+      work: async () => {
+        attempts++;
+        throw new Error("broken");
+      },
+    }, { maxAttempts: 2, retryDelayMs: 10 }).enqueue("work", image.id);
+
+    await vi.waitFor(() => expect(completed).toHaveLength(1), { timeout: 5000 });
+    expect(completed[0]).toMatchObject({ id: job.id, status: "failed", attempts: 2, error: "broken" });
+    expect(completed[0].completedAt).toBeInstanceOf(Date);
+    expect(attempts).toBe(2);
+  });
+
+  it("fails jobs of an unknown type like any other error", async () => {
+    const job = await start({}, { maxAttempts: 1 }).enqueue("unknown", null);
+
+    await vi.waitFor(() => expect(completed).toHaveLength(1));
+    expect(completed[0]).toMatchObject({ id: job.id, status: "failed", error: "No handler for job type unknown" });
+  });
+
+  it("resumes queued jobs and restarts the ones that were running", async () => {
+    const image = await storeImage(storage);
+    const queued = await storage.createJob({ type: "work", imageId: image.id, maxAttempts: 3 });
+    const interrupted = await storage.createJob({ type: "work", imageId: image.id, maxAttempts: 3 });
+    await storage.updateJob(interrupted.id, { status: "running", attempts: 1, progress: 40, step: "analysis" });
+    const done = await storage.createJob({ type: "work", imageId: image.id, maxAttempts: 3 });
+    await storage.updateJob(done.id, { status: "completed", progress: 100, completedAt: new Date() });
+
+    const handled: string[] = [];
+    const resumed = await start({
+      work: async job => {
+        handled.push(job.id);
+      },
+    }).resume();
+
+    expect(resumed).toBe(2);
+    await vi.waitFor(() => expect(completed).toHaveLength(2));
+    expect(handled.sort()).toEqual([queued.id, interrupted.id].sort());
+    expect(await storage.getJob(interrupted.id)).toMatchObject({ status: "completed", attempts: 2 });
+    expect(await storage.getJob(queued.id)).toMatchObject({ status: "completed", attempts: 1 });
+  });
+
+  it("drops the job of an image deleted before it ran", async () => {
+    const image = await storeImage(storage);
+    const handler = vi.fn(async () => {});
+    // The first job holds the only slot while the image of the second is deleted
+    let release!: () => void;
+    const queue = start({
+      block: () => new Promise<void>(resolve => (release = resolve)),
+      work: handler,
+    }, { concurrency: 1 });
+
+    const blocker = await queue.enqueue("block", null);
+    await vi.waitFor(() => expect(progress.map(update => update.id)).toContain(blocker.id));
+    const job = await queue.enqueue("work", image.id);
+
+    await storage.deleteImage(image.id);
+    release();
+    await vi.waitFor(() => expect(completed.map(update => update.id)).toEqual([blocker.id]));
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await storage.getJob(job.id)).toBeUndefined();
+    expect(completed).toHaveLength(1);
+  });
+
+  it("neither retries nor reports a failed job whose image was deleted while it ran", async () => {
+    const image = await storeImage(storage);
+    let attempts = 0;
+    await start({
+      work: async () => {
+        attempts++;
+        await storage.deleteImage(image.id);
+        throw new Error(`Image ${image.id} not found`);
+      },
+    }, { retryDelayMs: 10 }).enqueue("work", image.id);
+
+    await vi.waitFor(() => expect(attempts).toBe(1));
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(attempts).toBe(1);
+    expect(completed).toHaveLength(0);
+    expect(await storage.listUnfinishedJobs()).toEqual([]);
+  });
+});
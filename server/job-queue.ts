@@ -0,0 +1,155 @@
+import type { Job } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { positiveInt } from "./config";
+
+export interface JobQueueConfig {
+  concurrency: number; // jobs running at once
+  maxAttempts: number;
+  retryDelayMs: number; // before the first retry; doubled for each further one
+}
+
+// Reports how far a job got; persisted and broadcast as job_progress
+export type ReportProgress = (progress: number, step: string) => Promise<void>;
+
+export type JobHandler = (job: Job, reportProgress: ReportProgress) => Promise<void>;
+
+export interface JobEvents {
+  progress(job: Job): void; // started, advanced or scheduled for a retry
+  complete(job: Job): void; // completed, or failed for the last time
+}
+
+// JOB_CONCURRENCY / JOB_MAX_ATTEMPTS / JOB_RETRY_DELAY_MS
+export function loadJobQueueConfig(env = process.env): JobQueueConfig {
+  return {
+    concurrency: positiveInt(env.JOB_CONCURRENCY, 2),
+    maxAttempts: positiveInt(env.JOB_MAX_ATTEMPTS, 3),
+    retryDelayMs: positiveInt(env.JOB_RETRY_DELAY_MS, 2000),
+  };
+}
+
+// In-process queue whose jobs live in IStorage: the state of every job can be queried while it
+// runs, and jobs left unfinished by a restart are picked up again by resume()
+export class JobQueue {
+  private ready: string[] = [];
+  private running = 0;
+  private timers = new Set<NodeJS.Timeout>();
+  private stopped = false;
+
+  constructor(
+    private storage: IStorage,
+    private handlers: Record<string, JobHandler>,
+    private config: JobQueueConfig,
+    private events: JobEvents,
+  ) {}
+
+  async enqueue(type: string, imageId: string | null): Promise<Job> {
+    const job = await this.storage.createJob({ type, imageId, maxAttempts: this.config.maxAttempts });
+    this.schedule(job);
+    return job;
+  }
+
+  // Jobs that were running when the process stopped start over as a new attempt
+  async resume(): Promise<number> {
+    const unfinished = await this.storage.listUnfinishedJobs();
+    for (const job of unfinished) {
+      const queued = job.status === "running" ? await this.storage.updateJob(job.id, { status: "queued" }) : job;
+      if (queued) {
+        this.schedule(queued);
+      }
+    }
+    return unfinished.length;
+  }
+
+  stop() {
+    this.stopped = true;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private schedule(job: Job) {
+    if (this.stopped) return;
+    const delay = job.runAt.getTime() - Date.now();
+    if (delay <= 0) {
+      this.ready.push(job.id);
+      this.drain();
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this.ready.push(job.id);
+      this.drain();
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  private drain() {
+    while (!this.stopped && this.running < this.config.concurrency && this.ready.length > 0) {
+      const id = this.ready.shift()!;
+      this.running++;
+      this.execute(id)
+        .catch(error => console.error(`Job ${id} error:`, error))
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  private async execute(id: string) {
+    const queued = await this.storage.getJob(id);
+    if (!queued || queued.status !== "queued") return;
+
+    const job = await this.storage.updateJob(id, {
+      status: "running",
+      attempts: queued.attempts + 1,
+      progress: 0,
+      step: null,
+    });
+    if (!job) return;
+    this.events.progress(job);
+
+    try {
+      const handler = this.handlers[job.type];
+      if (!handler) {
+        throw new Error(`No handler for job type ${job.type}`);
+      }
+      await handler(job, async (progress, step) => {
+        const updated = await this.storage.updateJob(id, { progress, step });
+        if (updated) {
+          this.events.progress(updated);
+        }
+      });
+
+      const completed = await this.storage.updateJob(id, {
+        status: "completed",
+        progress: 100,
+        step: null,
+        error: null,
+        completedAt: new Date(),
+      });
+      if (completed) {
+        this.events.complete(completed);
+      }
+    } catch (error) {
+      console.error(`Job ${id} (${job.type}) attempt ${job.attempts} failed:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts < job.maxAttempts) {
+        const retry = await this.storage.updateJob(id, {
+          status: "queued",
+          error: message,
+          runAt: new Date(Date.now() + this.config.retryDelayMs * 2 ** (job.attempts - 1)),
+        });
+        if (retry) {
+          this.events.progress(retry);
+          this.schedule(retry);
+        }
+      } else {
+        const failed = await this.storage.updateJob(id, { status: "failed", error: message, completedAt: new Date() });
+        if (failed) {
+          this.events.complete(failed);
+        }
+      }
+    }
+  }
+}
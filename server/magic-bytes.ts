@@ -0,0 +1,188 @@
+// Container-level checks on raw upload bytes, done before any decoder sees them
+
+export type SniffedFormat = "jpeg" | "png" | "gif" | "webp" | "avif" | "heic" | "tiff" | "svg";
+
+// Declared MIME type → formats its bytes may actually contain
+const DECLARED_FORMATS: Record<string, SniffedFormat[]> = {
+  "image/jpeg": ["jpeg"],
+  "image/png": ["png"],
+  "image/gif": ["gif"],
+  "image/webp": ["webp"],
+  "image/avif": ["avif"],
+  "image/heic": ["heic"],
+  "image/heif": ["heic", "avif"],
+  "image/tiff": ["tiff"],
+  "image/svg+xml": ["svg"],
+};
+
+const AVIF_BRANDS = new Set(["avif", "avis"]);
+const HEIC_BRANDS = new Set(["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"]);
+
+const ascii = (buffer: Buffer, start: number, end: number) => buffer.toString("latin1", start, end);
+
+const startsJpeg = (buffer: Buffer) => buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff;
+
+export const isSvg = (buffer: Buffer) =>
+  /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i.test(buffer.subarray(0, 4096).toString("utf8"));
+
+// ISOBMFF `ftyp` box: AVIF and HEIC share the container and differ only by brand
+function sniffFtyp(buffer: Buffer): SniffedFormat | undefined {
+  if (buffer.length < 16 || ascii(buffer, 4, 8) !== "ftyp") return undefined;
+  const size = Math.min(buffer.readUInt32BE(0), buffer.length);
+  const brands = [ascii(buffer, 8, 12)];
+  for (let offset = 16; offset + 4 <= size; offset += 4) {
+    brands.push(ascii(buffer, offset, offset + 4));
+  }
+  if (brands.some(brand => AVIF_BRANDS.has(brand))) return "avif";
+  if (brands.some(brand => HEIC_BRANDS.has(brand))) return "heic";
+  return undefined;
+}
+
+// Identifies an image from its signature, ignoring whatever type the client declared
+export function sniffFormat(buffer: Buffer): SniffedFormat | undefined {
+  if (startsJpeg(buffer)) return "jpeg";
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "png";
+  if (buffer.length >= 6 && /^GIF8[79]a$/.test(ascii(buffer, 0, 6))) return "gif";
+  if (buffer.length >= 12 && ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WEBP") return "webp";
+  if (buffer.length >= 4 && ["II*\0", "MM\0*", "II+\0", "MM\0+"].includes(ascii(buffer, 0, 4))) return "tiff";
+  return sniffFtyp(buffer) ?? (isSvg(buffer) ? "svg" : undefined);
+}
+
+export const declaredTypeMatches = (mimeType: string, format: SniffedFormat) =>
+  DECLARED_FORMATS[mimeType.split(";")[0].trim().toLowerCase()]?.includes(format) ?? false;
+
+function jpegEnd(buffer: Buffer): number | undefined {
+  let offset = 2;
+  while (offset + 1 < buffer.length) {
+    if (buffer[offset] !== 0xff) return undefined;
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset += 1; // fill byte
+      continue;
+    }
+    if (marker === 0xd9) return offset + 2;
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (offset + 4 > buffer.length) return undefined;
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+
+    // Entropy-coded scan data runs until a real marker (not a stuffed 0xFF00 or a restart marker)
+    if (marker === 0xda) {
+      while (offset + 1 < buffer.length) {
+        const next = buffer[offset + 1];
+        if (buffer[offset] === 0xff && next !== 0x00 && next !== 0xff && !(next >= 0xd0 && next <= 0xd7)) break;
+        offset += 1;
+      }
+    }
+  }
+  return undefined;
+}
+
+// Phone and camera JPEGs (MPF/MPO) keep further complete JPEGs after the first EOI: depth maps,
+// gain maps, previews. The end is that of the last such stream.
+function jpegSequenceEnd(buffer: Buffer): number | undefined {
+  let end = jpegEnd(buffer);
+  while (end !== undefined && startsJpeg(buffer.subarray(end))) {
+    const next = jpegEnd(buffer.subarray(end));
+    if (next === undefined) break;
+    end += next;
+  }
+  return end;
+}
+
+// Only the primary image of a multi-image JPEG is kept: the others are never shown and would
+// carry their own, unsanitized metadata
+export function stripAppendedImages(buffer: Buffer, format: SniffedFormat): Buffer {
+  if (format !== "jpeg") return buffer;
+  const end = jpegEnd(buffer);
+  return end !== undefined && end < buffer.length ? buffer.subarray(0, end) : buffer;
+}
+
+function pngEnd(buffer: Buffer): number | undefined {
+  let offset = 8;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = ascii(buffer, offset + 4, offset + 8);
+    offset += 12 + length;
+    if (type === "IEND") return offset <= buffer.length ? offset : undefined;
+  }
+  return undefined;
+}
+
+function gifEnd(buffer: Buffer): number | undefined {
+  const skipSubBlocks = (offset: number) => {
+    while (offset < buffer.length) {
+      const size = buffer[offset];
+      offset += 1 + size;
+      if (size === 0) return offset;
+    }
+    return undefined;
+  };
+  const colorTableSize = (flags: number) => (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0);
+
+  if (buffer.length < 13) return undefined;
+  let offset: number | undefined = 13 + colorTableSize(buffer[10]);
+  while (offset !== undefined && offset < buffer.length) {
+    const block: number = buffer[offset];
+    if (block === 0x3b) return offset + 1;
+    if (block === 0x21) {
+      offset = skipSubBlocks(offset + 2);
+    } else if (block === 0x2c) {
+      if (offset + 10 > buffer.length) return undefined;
+      // Image descriptor, local colour table, LZW minimum code size, then the data sub-blocks
+      offset = skipSubBlocks(offset + 10 + colorTableSize(buffer[offset + 9]) + 1);
+    } else {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function webpEnd(buffer: Buffer): number | undefined {
+  const size = buffer.readUInt32LE(4);
+  const end = 8 + size + (size & 1);
+  return end <= buffer.length ? end : undefined;
+}
+
+// AVIF/HEIC: top-level boxes must tile the file exactly
+function isobmffEnd(buffer: Buffer): number | undefined {
+  let offset = 0;
+  while (offset + 8 <= buffer.length) {
+    let size = buffer.readUInt32BE(offset);
+    if (size === 0) return buffer.length; // last box runs to the end of the file
+    if (size === 1) {
+      if (offset + 16 > buffer.length) return undefined;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+    }
+    if (size < 8) return undefined;
+    offset += size;
+  }
+  return offset <= buffer.length ? offset : undefined;
+}
+
+function svgEnd(buffer: Buffer): number | undefined {
+  const index = buffer.lastIndexOf("</svg>");
+  return index === -1 ? undefined : index + "</svg>".length;
+}
+
+// Bytes after the end of the image structure, e.g. a ZIP or script appended to make a polyglot.
+// Zero padding (and whitespace after an SVG) is tolerated; formats we do not walk report 0.
+export function trailingDataLength(buffer: Buffer, format: SniffedFormat): number {
+  const end = {
+    jpeg: jpegSequenceEnd,
+    png: pngEnd,
+    gif: gifEnd,
+    webp: webpEnd,
+    avif: isobmffEnd,
+    heic: isobmffEnd,
+    svg: svgEnd,
+    tiff: () => undefined, // only the first page is kept, re-encoded
+  }[format](buffer);
+  if (end === undefined) return 0;
+
+  const trailing = buffer.subarray(end);
+  const padding = format === "svg" ? /^\s*$/ : /^\0*$/;
+  return padding.test(trailing.toString("latin1")) ? 0 : trailing.length;
+}
@@ -0,0 +1,199 @@
+import sharp from "sharp";
+import type { Request, Response } from "express";
+import type { Image, MjpegStreamQuery } from "@shared/schema";
+import { positiveNumber } from "./config";
+
+export interface MjpegStreamConfig {
+  maxFps: number; // frames per second sent to one client, at most
+  maxWidth: number; // frames are scaled down to fit maxWidth × maxHeight
+  maxHeight: number;
+  quality: number; // default JPEG quality
+  keepAliveMs: number; // the last frame is sent again after this long without a new one
+  maxClients: number;
+}
+
+export interface StreamFrameOptions {
+  width: number;
+  height: number;
+  quality: number;
+}
+
+// Renders the frame of an image, or the blank frame shown while no image is current
+export type RenderStreamFrame = (image: Image | undefined, options: StreamFrameOptions) => Promise<Buffer>;
+
+// MJPEG_MAX_FPS / MJPEG_MAX_WIDTH / MJPEG_MAX_HEIGHT / MJPEG_QUALITY / MJPEG_KEEPALIVE_MS / MJPEG_MAX_CLIENTS
+export function loadMjpegStreamConfig(env = process.env): MjpegStreamConfig {
+  return {
+    maxFps: positiveNumber(env.MJPEG_MAX_FPS, 5),
+    maxWidth: Math.round(positiveNumber(env.MJPEG_MAX_WIDTH, 1920)),
+    maxHeight: Math.round(positiveNumber(env.MJPEG_MAX_HEIGHT, 1080)),
+    quality: Math.min(100, Math.round(positiveNumber(env.MJPEG_QUALITY, 80))),
+    keepAliveMs: Math.round(positiveNumber(env.MJPEG_KEEPALIVE_MS, 10_000)),
+    maxClients: Math.round(positiveNumber(env.MJPEG_MAX_CLIENTS, 20)),
+  };
+}
+
+// First frame of the image, fitted into the box and flattened onto black. Without an image the
+// frame is black and 16:9, as large as fits the box.
+export async function renderStreamFrame(buffer: Buffer | null, { width, height, quality }: StreamFrameOptions): Promise<Buffer> {
+  const blankWidth = Math.max(1, Math.min(width, Math.round(height * 16 / 9)));
+  const blankHeight = Math.max(1, Math.round(blankWidth * 9 / 16));
+  const pipeline = buffer
+    ? sharp(buffer, { pages: 1 }).resize({ width, height, fit: "inside", withoutEnlargement: true })
+    : sharp({ create: { width: blankWidth, height: blankHeight, channels: 3, background: "#000000" } });
+  return pipeline
+    .flatten({ background: "#000000" })
+    .toColourspace("srgb")
+    .jpeg({ quality })
+    .toBuffer();
+}
+
+const BOUNDARY = "mjpegframe";
+
+interface StreamClient {
+  res: Response;
+  options: StreamFrameOptions;
+  intervalMs: number;
+  lastSentAt: number;
+  frame?: Buffer; // latest frame for this client
+  sent?: Buffer; // frame last written to the socket
+  pending?: NodeJS.Timeout; // throttled frame waiting for the interval to pass
+  keepAlive?: NodeJS.Timeout;
+  blocked: boolean; // socket buffer is full; frames wait for 'drain'
+}
+
+// `multipart/x-mixed-replace` streams of the current image for clients that cannot speak the
+// WebSocket protocol (OBS, VLC, dashboards). Every publish pushes a new JPEG part to each client,
+// throttled to its frame rate; slow clients skip to the latest frame instead of buffering.
+export class MjpegStreams {
+  private clients = new Set<StreamClient>();
+  private image: Image | undefined;
+  // Frames of the current image per size and quality, least recently used first. Capped at one per
+  // possible client so clients cycling through sizes cannot grow it.
+  private frames = new Map<string, Promise<Buffer>>();
+  private generation = 0;
+
+  constructor(private config: MjpegStreamConfig, private render: RenderStreamFrame) {}
+
+  get full() {
+    return this.clients.size >= this.config.maxClients;
+  }
+
+  // Takes over the response until the client disconnects
+  open(req: Request, res: Response, query: MjpegStreamQuery) {
+    const client: StreamClient = {
+      res,
+      options: {
+        width: Math.min(query.w ?? this.config.maxWidth, this.config.maxWidth),
+        height: Math.min(query.h ?? this.config.maxHeight, this.config.maxHeight),
+        quality: query.q ?? this.config.quality,
+      },
+      intervalMs: 1000 / Math.min(query.fps ?? this.config.maxFps, this.config.maxFps),
+      lastSentAt: 0,
+      blocked: false,
+    };
+
+    res.writeHead(200, {
+      "Content-Type": `multipart/x-mixed-replace; boundary=${BOUNDARY}`,
+      "Cache-Control": "no-cache, no-store, must-revalidate",
+      Pragma: "no-cache",
+      Connection: "keep-alive",
+    });
+    res.on("drain", () => {
+      client.blocked = false;
+      if (client.frame !== client.sent) {
+        this.schedule(client);
+      }
+    });
+    req.on("close", () => this.remove(client));
+
+    this.clients.add(client);
+    this.refresh(client);
+  }
+
+  // Called for every image update; null or undefined when the display was cleared
+  publish(image: Image | null | undefined) {
+    // Re-broadcasts of the same image (e.g. after processing) reuse its frames
+    if (image?.id !== this.image?.id) {
+      this.frames.clear();
+      this.generation++;
+    }
+    this.image = image ?? undefined;
+    this.clients.forEach(client => this.refresh(client));
+  }
+
+  // Renders every frame again for the same image, e.g. after a watermark profile changed
+  redraw() {
+    this.frames.clear();
+    this.generation++;
+    this.clients.forEach(client => this.refresh(client));
+  }
+
+  close() {
+    this.clients.forEach(client => {
+      this.remove(client);
+      client.res.end();
+    });
+  }
+
+  private remove(client: StreamClient) {
+    clearTimeout(client.pending);
+    clearTimeout(client.keepAlive);
+    this.clients.delete(client);
+  }
+
+  private frameFor(options: StreamFrameOptions): Promise<Buffer> {
+    const key = `${options.width}x${options.height}q${options.quality}`;
+    let frame = this.frames.get(key);
+    if (frame) {
+      this.frames.delete(key); // moved to the most recently used end
+    } else {
+      frame = this.render(this.image, options);
+      // A failed render is retried by the next publish rather than cached
+      frame.catch(() => this.frames.get(key) === frame && this.frames.delete(key));
+    }
+    this.frames.set(key, frame);
+    if (this.frames.size > this.config.maxClients) {
+      this.frames.delete(this.frames.keys().next().value!);
+    }
+    return frame;
+  }
+
+  private refresh(client: StreamClient) {
+    const generation = this.generation;
+    this.frameFor(client.options)
+      .then(frame => {
+        // A newer image may have been published while this one rendered
+        if (generation !== this.generation || !this.clients.has(client)) return;
+        client.frame = frame;
+        this.schedule(client);
+      })
+      .catch(error => console.error("MJPEG frame error:", error));
+  }
+
+  private schedule(client: StreamClient) {
+    if (client.pending || client.blocked) return; // the waiting send picks up the latest frame
+    const wait = client.lastSentAt + client.intervalMs - Date.now();
+    if (wait <= 0) {
+      this.send(client);
+      return;
+    }
+    client.pending = setTimeout(() => {
+      client.pending = undefined;
+      this.send(client);
+    }, wait);
+  }
+
+  private send(client: StreamClient) {
+    const frame = client.frame;
+    if (!frame || !this.clients.has(client)) return;
+    clearTimeout(client.keepAlive);
+    client.keepAlive = setTimeout(() => this.schedule(client), this.config.keepAliveMs);
+    if (client.blocked) return;
+
+    client.lastSentAt = Date.now();
+    client.sent = frame;
+    const header = `--${BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${frame.length}\r\n\r\n`;
+    client.blocked = !client.res.write(Buffer.concat([Buffer.from(header), frame, Buffer.from("\r\n")]));
+  }
+}
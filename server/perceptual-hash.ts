@@ -0,0 +1,71 @@
+import sharp from "sharp";
+
+export type NearDuplicateMode = "allow" | "flag" | "reject";
+
+export interface NearDuplicatePolicy {
+  mode: NearDuplicateMode;
+  threshold: number; // max Hamming distance (of 64 bits) still counted as a near-duplicate
+}
+
+export interface SimilarImage<T> {
+  image: T;
+  distance: number;
+}
+
+const MODES: NearDuplicateMode[] = ["allow", "flag", "reject"];
+
+// NEAR_DUPLICATE_MODE / NEAR_DUPLICATE_THRESHOLD; each upload can override both
+export function loadNearDuplicatePolicy(env = process.env): NearDuplicatePolicy {
+  const threshold = parseInt(env.NEAR_DUPLICATE_THRESHOLD ?? "", 10);
+  return {
+    mode: MODES.find(mode => mode === env.NEAR_DUPLICATE_MODE) ?? "allow",
+    threshold: Number.isInteger(threshold) && threshold >= 0 && threshold <= 64 ? threshold : 10,
+  };
+}
+
+// 64-bit difference hash of the first frame: each bit says whether a pixel of a 9×8 greyscale
+// thumbnail is brighter than its right neighbour. Survives re-encoding, resizing and small edits.
+export async function perceptualHash(buffer: Buffer): Promise<string> {
+  const { data } = await sharp(buffer, { pages: 1 })
+    .flatten({ background: "#ffffff" })
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // One byte per row: bit 7 is the leftmost comparison
+  const rows = Array.from({ length: 8 }, (_, row) => {
+    let bits = 0;
+    for (let column = 0; column < 8; column++) {
+      bits = (bits << 1) | (data[row * 9 + column] > data[row * 9 + column + 1] ? 1 : 0);
+    }
+    return bits;
+  });
+  return Buffer.from(rows).toString("hex");
+}
+
+export function hammingDistance(a: string, b: string): number {
+  const left = Buffer.from(a, "hex");
+  const right = Buffer.from(b, "hex");
+  let distance = 0;
+  for (let index = 0; index < left.length; index++) {
+    for (let difference = left[index] ^ right[index]; difference; difference &= difference - 1) {
+      distance += 1;
+    }
+  }
+  return distance;
+}
+
+// Closest first; ties keep the input order
+export function rankBySimilarity<T extends { id: string; phash: string | null }>(
+  candidates: T[],
+  phash: string,
+  threshold: number,
+  excludeId?: string,
+): SimilarImage<T>[] {
+  return candidates
+    .filter(candidate => candidate.phash && candidate.id !== excludeId)
+    .map(candidate => ({ image: candidate, distance: hammingDistance(phash, candidate.phash!) }))
+    .filter(match => match.distance <= threshold)
+    .sort((a, b) => a.distance - b.distance);
+}
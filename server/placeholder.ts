@@ -0,0 +1,53 @@
+import sharp from "sharp";
+import { encode } from "blurhash";
+
+export interface ImagePlaceholder {
+  dominantColor: string; // #rrggbb
+  palette: string[]; // most common colours first
+  blurhash: string;
+}
+
+const PALETTE_SIZE = 5;
+
+const hex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, "0")).join("")}`;
+
+// Buckets pixels on a 4-bit-per-channel grid and averages the most populated buckets.
+// Fully transparent pixels are ignored so cut-outs do not come out black.
+function extractPalette(pixels: Buffer, channels: number): string[] {
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (let offset = 0; offset < pixels.length; offset += channels) {
+    if (channels === 4 && pixels[offset + 3] === 0) continue;
+    const [r, g, b] = [pixels[offset], pixels[offset + 1], pixels[offset + 2]];
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count += 1;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, PALETTE_SIZE)
+    .map(bucket => hex(bucket.r / bucket.count, bucket.g / bucket.count, bucket.b / bucket.count));
+}
+
+// Computed from the first frame scaled down to 32px, so cost does not grow with the upload;
+// the dominant colour is the most populated palette bucket
+export async function computePlaceholder(buffer: Buffer): Promise<ImagePlaceholder> {
+  const { data, info } = await sharp(buffer, { pages: 1 })
+    .resize(32, 32, { fit: "inside" })
+    .toColourspace("srgb")
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const palette = extractPalette(data, info.channels);
+
+  return {
+    dominantColor: palette[0] ?? "#000000",
+    palette,
+    blurhash: encode(new Uint8ClampedArray(data), info.width, info.height, 4, 3),
+  };
+}
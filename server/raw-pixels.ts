@@ -0,0 +1,77 @@
+import sharp from "sharp";
+import type { RawPixelFormat } from "@shared/schema";
+import { assertWithinLimits, ImageValidationError, type IngestLimits } from "./image-formats";
+
+const BYTES_PER_SAMPLE = { uint8: 1, uint16: 2, float32: 4 } as const;
+
+export const rawByteLength = ({ width, height, channels, dtype }: RawPixelFormat) =>
+  width * height * channels * BYTES_PER_SAMPLE[dtype];
+
+// Copied so the typed array is aligned; a Buffer may start at any offset of its pool
+function toSamples(buffer: Buffer, dtype: RawPixelFormat["dtype"]): ArrayLike<number> {
+  const aligned = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length);
+  switch (dtype) {
+    case "uint8":
+      return new Uint8Array(aligned);
+    case "uint16":
+      return new Uint16Array(aligned);
+    case "float32":
+      return new Float32Array(aligned);
+  }
+}
+
+// Darkest and brightest finite colour sample, skipping alpha
+function colourRange(samples: ArrayLike<number>, channels: number, hasAlpha: boolean): [number, number] | undefined {
+  let low = Infinity;
+  let high = -Infinity;
+  for (let i = 0; i < samples.length; i++) {
+    if (hasAlpha && i % channels === channels - 1) continue;
+    const value = samples[i];
+    if (Number.isFinite(value)) {
+      low = Math.min(low, value);
+      high = Math.max(high, value);
+    }
+  }
+  return low <= high ? [low, high] : undefined;
+}
+
+// Encodes raw pixels as a PNG: 8-bit for uint8, 16-bit for uint16 and float32 so no precision is
+// lost before display conversion. Float samples outside 0..1 (or NaN) are clamped.
+export async function rawToPng(buffer: Buffer, format: RawPixelFormat, limits: IngestLimits): Promise<Buffer> {
+  const { width, height, channels, dtype, normalize } = format;
+  assertWithinLimits({ width, height }, limits, 1);
+  const expected = rawByteLength(format);
+  if (buffer.length !== expected) {
+    throw new ImageValidationError(
+      `Raw pixel data is ${buffer.length} bytes; ${width}x${height} with ${channels} ${dtype} channel(s) needs ${expected}`,
+      400,
+      "raw_size_mismatch",
+    );
+  }
+
+  const input = toSamples(buffer, dtype);
+  const deep = dtype !== "uint8";
+  const outputMax = deep ? 65535 : 255;
+  const hasAlpha = channels === 2 || channels === 4;
+
+  let output: Uint8Array | Uint16Array;
+  if (dtype !== "float32" && normalize === "none") {
+    output = input as Uint8Array | Uint16Array;
+  } else {
+    // Input values mapped to 0 and to the output maximum
+    const full: [number, number] = dtype === "float32" ? [0, 1] : [0, outputMax];
+    const colour = normalize === "minmax" ? colourRange(input, channels, hasAlpha) ?? full : full;
+    output = deep ? new Uint16Array(input.length) : new Uint8Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const [low, high] = hasAlpha && i % channels === channels - 1 ? full : colour;
+      const value = (input[i] - low) / (high - low);
+      output[i] = Number.isFinite(value) ? Math.round(Math.min(1, Math.max(0, value)) * outputMax) : 0;
+    }
+  }
+
+  const grey = channels < 3;
+  return sharp(output, { raw: { width, height, channels: channels as 1 | 2 | 3 | 4 }, limitInputPixels: limits.maxPixels })
+    .toColourspace(deep ? (grey ? "grey16" : "rgb16") : (grey ? "b-w" : "srgb"))
+    .png()
+    .toBuffer();
+}
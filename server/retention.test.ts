@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Image } from "@shared/schema";
+import { enforceRetention, selectEvictions, type RetentionPolicy } from "./retention";
+import type { IStorage } from "./storage";
+import { storageImplementations } from "./test-storage";
+
+const HOUR = 60 * 60 * 1000;
+
+const policy = (limits: Partial<RetentionPolicy>): RetentionPolicy => ({ keepPinned: true, sweepIntervalMs: 60_000, ...limits });
+
+const image = (id: string, hoursAgo: number, overrides: Partial<Image> = {}) =>
+  ({ id, size: 100, pinned: false, uploadedAt: new Date(Date.now() - hoursAgo * HOUR), ...overrides }) as Image;
+
+const ids = (images: Image[]) => images.map(({ id }) => id);
+
+describe("selectEvictions", () => {
+  const images = [image("new", 0), image("mid", 2), image("old", 4), image("oldest", 6)];
+
+  it("evicts the oldest images over the count, never the current one", () => {
+    expect(ids(selectEvictions(images, policy({ maxImages: 2 }), "new"))).toEqual(["oldest", "old"]);
+    expect(ids(selectEvictions(images, policy({ maxImages: 2 }), "oldest"))).toEqual(["old", "mid"]);
+    expect(ids(selectEvictions(images, policy({ maxImages: 1 }), "oldest"))).toEqual(["old", "mid", "new"]);
+  });
+
+  it("evicts images past the age limit, except the current one", () => {
+    expect(ids(selectEvictions(images, policy({ maxAgeMs: 3 * HOUR }), "new"))).toEqual(["oldest", "old"]);
+    expect(ids(selectEvictions(images, policy({ maxAgeMs: 3 * HOUR }), "oldest"))).toEqual(["old"]);
+  });
+
+  it("evicts the oldest images until the total size fits", () => {
+    expect(ids(selectEvictions(images, policy({ maxTotalBytes: 250 }), "new"))).toEqual(["oldest", "old"]);
+  });
+
+  it("keeps pinned images unless told otherwise", () => {
+    const withPinned = [image("new", 0), image("pinned", 6, { pinned: true }), image("old", 4)];
+    expect(ids(selectEvictions(withPinned, policy({ maxImages: 1 }), "new"))).toEqual(["old"]);
+    expect(ids(selectEvictions(withPinned, policy({ maxImages: 1, keepPinned: false }), "new"))).toEqual(["pinned", "old"]);
+  });
+
+  it("keeps the current image even when it alone breaks every limit", () => {
+    const only = [image("only", 10, { size: 1000 })];
+    expect(selectEvictions(only, policy({ maxImages: 0, maxAgeMs: HOUR, maxTotalBytes: 1 }), "only")).toEqual([]);
+  });
+});
+
+describe.each(storageImplementations)("enforceRetention on %s", (_name, create) => {
+  let storage: IStorage;
+
+  const store = async (filename: string, pinned = false) => {
+    const stored = await storage.storeImage(
+      { type: "upload", filename, format: "png", width: 1, height: 1, size: 100, pinned },
+      Buffer.from(filename),
+    );
+    // Distinct upload times keep the age order unambiguous
+    await new Promise(resolve => setTimeout(resolve, 5));
+    return stored;
+  };
+
+  beforeEach(async () => {
+    storage = await create();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("does nothing without limits", async () => {
+    await store("a.png");
+    await store("b.png");
+    expect(await enforceRetention(storage, policy({}))).toEqual([]);
+    expect(await storage.getAllImages()).toHaveLength(2);
+  });
+
+  it("prunes by count, oldest first, and deletes the bytes", async () => {
+    const first = await store("first.png");
+    const second = await store("second.png");
+    const third = await store("third.png");
+
+    const evicted = await enforceRetention(storage, policy({ maxImages: 2 }));
+    expect(ids(evicted)).toEqual([first.id]);
+    expect(await storage.getImage(first.id)).toBeUndefined();
+    expect(await storage.getImageData(first.id)).toBeUndefined();
+    expect(ids(await storage.getAllImages()).sort()).toEqual([second.id, third.id].sort());
+    expect((await storage.getCurrentImage())?.id).toBe(third.id);
+  });
+
+  it("never prunes the displayed image by count, even when it is the oldest", async () => {
+    const first = await store("first.png");
+    const second = await store("second.png");
+    const third = await store("third.png");
+    await storage.setCurrentImage(first.id);
+
+    const evicted = await enforceRetention(storage, policy({ maxImages: 1 }));
+    expect(ids(evicted)).toEqual([second.id, third.id]);
+    expect((await storage.getCurrentImage())?.id).toBe(first.id);
+    expect((await storage.getImageData(first.id))?.toString()).toBe("first.png");
+  });
+
+  it("prunes by age, keeping the displayed and pinned images", async () => {
+    const first = await store("first.png");
+    const pinned = await store("pinned.png", true);
+    const third = await store("third.png");
+    const current = await store("current.png");
+
+    // Two hours later every image is past the one hour limit
+    const later = Date.now() + 2 * HOUR;
+    vi.spyOn(Date, "now").mockReturnValue(later);
+
+    const evicted = await enforceRetention(storage, policy({ maxAgeMs: HOUR }));
+    expect(ids(evicted)).toEqual([first.id, third.id]);
+    expect(ids(await storage.getAllImages()).sort()).toEqual([pinned.id, current.id].sort());
+    expect((await storage.getCurrentImage())?.id).toBe(current.id);
+  });
+
+  it("keeps the image shown again by undo", async () => {
+    const first = await store("first.png");
+    const second = await store("second.png");
+    await storage.revertCurrentImage();
+    expect((await storage.getCurrentImage())?.id).toBe(first.id);
+
+    const evicted = await enforceRetention(storage, policy({ maxImages: 1 }));
+    expect(ids(evicted)).toEqual([second.id]);
+    expect((await storage.getCurrentImage())?.id).toBe(first.id);
+  });
+});
@@ -0,0 +1,98 @@
+import type { Image } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { positiveNumber } from "./config";
+import { log } from "./vite";
+
+export interface RetentionPolicy {
+  maxImages?: number;
+  maxTotalBytes?: number;
+  maxAgeMs?: number;
+  keepPinned: boolean; // pinned images are never evicted
+  sweepIntervalMs: number;
+}
+
+// All limits are optional; with none set nothing is ever evicted
+export function loadRetentionPolicy(env = process.env): RetentionPolicy {
+  const maxAgeHours = positiveNumber(env.RETENTION_MAX_AGE_HOURS);
+  return {
+    maxImages: positiveNumber(env.RETENTION_MAX_IMAGES),
+    maxTotalBytes: positiveNumber(env.RETENTION_MAX_BYTES),
+    maxAgeMs: maxAgeHours ? maxAgeHours * 60 * 60 * 1000 : undefined,
+    keepPinned: env.RETENTION_KEEP_PINNED !== "false",
+    sweepIntervalMs: (positiveNumber(env.RETENTION_SWEEP_SECONDS) ?? 300) * 1000,
+  };
+}
+
+export const hasRetentionLimits = (policy: RetentionPolicy) =>
+  policy.maxImages !== undefined || policy.maxTotalBytes !== undefined || policy.maxAgeMs !== undefined;
+
+// Picks the images to evict, oldest first. The current image is always kept.
+export function selectEvictions(
+  images: Image[],
+  policy: RetentionPolicy,
+  currentImageId: string | undefined,
+  now = Date.now(),
+): Image[] {
+  const oldestFirst = [...images].sort((a, b) => a.uploadedAt.getTime() - b.uploadedAt.getTime());
+  const evictable = (image: Image) => image.id !== currentImageId && !(policy.keepPinned && image.pinned);
+
+  const evicted = new Set<Image>();
+  let count = images.length;
+  let totalBytes = images.reduce((sum, image) => sum + (image.size ?? 0), 0);
+
+  for (const image of oldestFirst) {
+    if (!evictable(image)) continue;
+
+    const expired = policy.maxAgeMs !== undefined && now - image.uploadedAt.getTime() > policy.maxAgeMs;
+    const overCount = policy.maxImages !== undefined && count > policy.maxImages;
+    const overBytes = policy.maxTotalBytes !== undefined && totalBytes > policy.maxTotalBytes;
+
+    if (expired || overCount || overBytes) {
+      evicted.add(image);
+      count--;
+      totalBytes -= image.size ?? 0;
+    }
+  }
+
+  return oldestFirst.filter(image => evicted.has(image));
+}
+
+// Deletes whatever the policy no longer allows and returns the evicted images
+export async function enforceRetention(storage: IStorage, policy: RetentionPolicy): Promise<Image[]> {
+  if (!hasRetentionLimits(policy)) return [];
+
+  const [images, current] = await Promise.all([storage.getAllImages(), storage.getCurrentImage()]);
+  const candidates = selectEvictions(images, policy, current?.id);
+
+  const evicted: Image[] = [];
+  for (const image of candidates) {
+    if (await storage.deleteImage(image.id)) {
+      evicted.push(image);
+    }
+  }
+
+  if (evicted.length > 0) {
+    log(`evicted ${evicted.length} image(s): ${evicted.map(image => image.id).join(", ")}`, "retention");
+  }
+  return evicted;
+}
+
+// Runs enforceRetention on an interval; returns a function that stops the sweeper
+export function startRetentionSweeper(
+  storage: IStorage,
+  policy: RetentionPolicy,
+  onEvict: (evicted: Image[]) => void,
+): () => void {
+  if (!hasRetentionLimits(policy)) return () => {};
+
+  const timer = setInterval(() => {
+    enforceRetention(storage, policy)
+      .then(evicted => {
+        if (evicted.length > 0) onEvict(evicted);
+      })
+      .catch(error => console.error("Retention sweep error:", error));
+  }, policy.sweepIntervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
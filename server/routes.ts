@@ -1,30 +1,203 @@
-import type { Express } from "express";
+import express, { type Express, type RequestHandler, type Response } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import multer from "multer";
 import { storage } from "./storage";
-import { imageUploadSchema, base64ImageSchema, urlImageSchema } from "@shared/schema";
+import { log } from "./vite";
+import { sendImage } from "./serve-image";
+import { stripMetadataByDefault } from "./exif";
+import { loadNearDuplicatePolicy, type NearDuplicateMode } from "./perceptual-hash";
+import { ImageDiffCache } from "./image-diff";
+import { applyWatermark, defaultWatermark } from "./watermark";
+import { isDisplayReady } from "./color-profile";
+import { ImageWorkerPool, loadWorkerPoolConfig, ProcessingUnavailableError } from "./worker-pool";
+import type { PreparedUpload } from "./image-tasks";
+import { JobQueue, loadJobQueueConfig, type JobHandler } from "./job-queue";
+import {
+  loadUploadLimits,
+  resolveUploadLimit,
+  base64BodyLimit,
+  payloadTooLarge,
+  uploadTmpDir,
+  saveToTempFile,
+  removeTempFile,
+  type UploadRoute,
+} from "./upload-intake";
+import { rawByteLength } from "./raw-pixels";
+import { MjpegStreams, loadMjpegStreamConfig } from "./mjpeg-stream";
+import {
+  isSupportedMimeType,
+  assertSupportedMimeType,
+  parseDataUri,
+  rasterizeSvgByDefault,
+  loadIngestLimits,
+  ImageValidationError,
+  SUPPORTED_FORMATS_LABEL,
+} from "./image-formats";
+import { animatedToWebpByDefault } from "./animation";
+import { loadDerivativeConfig } from "./derivatives";
+import {
+  loadTransformLimits,
+  validateTransform,
+  wantsTransform,
+  negotiateFormat,
+  variantKey,
+  renderDerivative,
+  DerivativeCache,
+  type Derivative,
+} from "./transform";
+import { loadRetentionPolicy, enforceRetention, startRetentionSweeper } from "./retention";
+import {
+  imageUploadSchema,
+  base64ImageSchema,
+  urlImageSchema,
+  rawUploadQuerySchema,
+  uploadOptionsSchema,
+  pinImageSchema,
+  setCurrentImageSchema,
+  imageListQuerySchema,
+  imageTransformQuerySchema,
+  similarImagesQuerySchema,
+  mjpegStreamQuerySchema,
+  imageDiffSchema,
+  imageDiffQuerySchema,
+  watermarkProfileSchema,
+  watermarkProfileIdSchema,
+  type Image,
+  type Job,
+  type JobResponse,
+  type WatermarkProfile,
+  type ImageResponse,
+  type ImageDiffResponse,
+  type UploadOptions,
+  type RawPixelFormat,
+} from "@shared/schema";
 import { z } from "zod";
-import sharp from "sharp";
 import fetch from "node-fetch";
 import { promises as dns } from "dns";
+import { promises as fs } from "fs";
+import { createHash, timingSafeEqual } from "crypto";
 
-// Configure multer for file uploads
-const upload = multer({
-  storage: multer.memoryStorage(),
+const uploadLimits = loadUploadLimits();
+
+// Pixel diffs kept in memory; each holds a PNG as large as the compared images
+const DIFF_CACHE_ENTRIES = 16;
+
+// Upload size limit for this request: per route, or per API key when one is sent
+const uploadLimit = (req: express.Request, route: UploadRoute) =>
+  resolveUploadLimit(uploadLimits, route, req.get('X-API-Key'));
+
+// Multipart files are streamed to a temp file, so their size is bounded by disk rather than memory
+const createUpload = (maxBytes: number) => multer({
+  storage: multer.diskStorage({ destination: uploadTmpDir() }),
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
+    fileSize: maxBytes,
+    files: 1,
   },
   fileFilter: (req, file, cb) => {
-    const allowedMimes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-    if (allowedMimes.includes(file.mimetype)) {
+    if (isSupportedMimeType(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only JPEG, PNG, GIF, and WebP are allowed.'));
+      cb(new ImageValidationError(`Invalid file type. Supported formats: ${SUPPORTED_FORMATS_LABEL}.`, 415, "unsupported_type"));
     }
   },
 });
 
+// Structured 4xx body for uploads refused by format or safety checks
+const rejectImage = (res: Response, error: ImageValidationError) =>
+  res.status(error.status).json({
+    success: false,
+    message: error.message,
+    code: error.code,
+  });
+
+// The worker pool is saturated or a job failed to finish; clients should retry later
+const rejectUnavailable = (res: Response, error: ProcessingUnavailableError) =>
+  res.status(503).set('Retry-After', '5').json({
+    success: false,
+    message: error.message,
+    code: error.code,
+  });
+
+// Multer errors from the file filter or size limit would otherwise reach the generic error handler
+const receiveImageFile: RequestHandler = (req, res, next) => {
+  const maxBytes = uploadLimit(req, 'multipart');
+  createUpload(maxBytes).single('image')(req, res, (error: unknown) => {
+    if (error instanceof ImageValidationError) {
+      return rejectImage(res, error);
+    }
+    if (error instanceof multer.MulterError) {
+      // Anything else multer refuses is a malformed form: extra files, unexpected fields, too many parts
+      return rejectImage(res, error.code === 'LIMIT_FILE_SIZE'
+        ? payloadTooLarge(maxBytes)
+        : new ImageValidationError(
+          `${error.message}${error.field ? ` (${error.field})` : ''}; send a single file in the "image" field`,
+          400,
+          'invalid_multipart',
+        ));
+    }
+    next(error);
+  });
+};
+
+// JSON uploads and watermark logos are parsed here rather than by the app-wide parser, so the body
+// limit can follow the base64 limit of the request; URL uploads are tiny and fit any such limit
+const receiveJsonUpload: RequestHandler = (req, res, next) => {
+  const maxBytes = uploadLimit(req, 'base64');
+  express.json({ limit: base64BodyLimit(maxBytes) })(req, res, (error: unknown) => {
+    if ((error as { type?: string } | undefined)?.type === 'entity.too.large') {
+      return rejectImage(res, payloadTooLarge(maxBytes));
+    }
+    next(error);
+  });
+};
+
+// ADMIN_TOKEN must be sent as `Authorization: Bearer <token>` to the admin API; without one
+// configured the admin API is disabled rather than open
+const requireAdmin: RequestHandler = (req, res, next) => {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(503).json({
+      success: false,
+      message: 'Admin API is disabled; set ADMIN_TOKEN to enable it',
+      code: 'admin_disabled',
+    });
+  }
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (!timingSafeEqual(digest(req.get('Authorization') ?? ''), digest(`Bearer ${token}`))) {
+    return res.status(401).json({
+      success: false,
+      message: 'Admin token required',
+    });
+  }
+  next();
+};
+
+// Watermark profile as sent to clients; the logo blob key stays internal
+const toWatermarkResponse = ({ logo, ...profile }: WatermarkProfile) => ({
+  ...profile,
+  hasLogo: !!logo,
+});
+
+// Strip the blob key from an image record and point clients at its bytes instead
+const toImageResponse = (image: Image): ImageResponse => {
+  const { data, derivatives, ...rest } = image;
+  return {
+    ...rest,
+    url: `/api/v1/image/${image.id}`,
+    rawUrl: `/api/v1/image/${image.id}/raw`,
+    derivatives: derivatives.map(({ data, ...derivative }) => ({
+      ...derivative,
+      url: `/api/v1/image/${image.id}/derivatives/${derivative.name}`,
+    })),
+  };
+};
+
+const toJobResponse = (job: Job): JobResponse => ({
+  ...job,
+  url: `/api/v1/jobs/${job.id}`,
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
@@ -43,7 +216,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (currentImage && ws.readyState === WebSocket.OPEN) {
         ws.send(JSON.stringify({
           type: 'image_update',
-          data: currentImage
+          data: toImageResponse(currentImage)
         }));
       }
     });
@@ -59,12 +232,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
   
-  // Broadcast image update to all connected clients
-  const broadcastImageUpdate = (image: any) => {
-    const message = JSON.stringify({
-      type: 'image_update',
-      data: image
-    });
+  // Broadcast a message to all connected clients
+  const broadcast = (type: string, data: unknown) => {
+    const message = JSON.stringify({ type, data });
     
     clients.forEach(client => {
       if (client.readyState === WebSocket.OPEN) {
@@ -72,6 +242,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     });
   };
+  
+  // MJPEG streams follow the same updates as the WebSocket displays
+  const broadcastImageUpdate = (image: Image) => {
+    broadcast('image_update', toImageResponse(image));
+    streams.publish(image);
+  };
+  
+  // Tell every display to blank the image it is showing
+  const broadcastImageCleared = (image: Image) => {
+    broadcast('image_cleared', { id: image.id });
+    streams.publish(undefined);
+  };
+  
+  // Tell clients which images retention removed so they can drop them from history
+  const broadcastEvictions = (evicted: Image[]) => {
+    broadcast('images_evicted', { ids: evicted.map(image => image.id) });
+  };
+  
+  const derivativeConfig = loadDerivativeConfig();
+  const transformLimits = loadTransformLimits();
+  const ingestLimits = loadIngestLimits();
+  const nearDuplicatePolicy = loadNearDuplicatePolicy();
+  const derivatives = new DerivativeCache(transformLimits.cacheBytes);
+  
+  // Decoding and encoding of uploads runs off the event loop
+  const workers = new ImageWorkerPool(loadWorkerPoolConfig());
+  httpServer.on('close', () => workers.close());
+  
+  // Everything not needed to answer the upload: placeholder, perceptual hash (unless near-duplicate
+  // checks already computed it) and derivatives. Each step is idempotent, so retries start over.
+  // An image deleted or evicted since the upload leaves nothing to do, so the job just completes.
+  const processImage: JobHandler = async (job, reportProgress) => {
+    const image = job.imageId ? await storage.getImage(job.imageId) : undefined;
+    const bytes = image && await storage.getImageData(image.id);
+    if (!image || !bytes) {
+      return;
+    }
+    
+    await reportProgress(10, 'analysis');
+    const { placeholder, phash } = await workers.run('analyzeImage', bytes);
+    await storage.updateImageAnalysis(image.id, { ...placeholder, phash: image.phash ?? phash });
+    
+    await reportProgress(40, 'derivatives');
+    const rendered = await workers.run('renderImageDerivatives', bytes, image.width, derivativeConfig, (image.frameCount ?? 1) > 1);
+    if (rendered.length > 0) {
+      await storage.addDerivatives(image.id, rendered);
+    }
+  };
+  
+  const jobs = new JobQueue(storage, { process_image: processImage }, loadJobQueueConfig(), {
+    progress: job => broadcast('job_progress', toJobResponse(job)),
+    complete: job => {
+      (async () => {
+        const image = job.imageId ? await storage.getImage(job.imageId) : undefined;
+        broadcast('job_complete', { ...toJobResponse(job), image: image ? toImageResponse(image) : null });
+        
+        // Displays showing the image pick up its placeholder and derivatives
+        const current = await storage.getCurrentImage();
+        if (image && current?.id === image.id) {
+          broadcastImageUpdate(current);
+        }
+      })().catch(error => console.error('Job completion broadcast error:', error));
+    },
+  });
+  jobs.resume()
+    .then(resumed => {
+      if (resumed > 0) log(`resumed ${resumed} unfinished job(s)`, "jobs");
+    })
+    .catch(error => console.error('Error resuming jobs:', error));
+  httpServer.on('close', () => jobs.stop());
+  
+  // Serve-time watermark of an image; the variant changes whenever the profile is edited
+  const servedWatermark = async (image: Image) => {
+    if (image.watermarkAt !== 'serve' || !image.watermark) return undefined;
+    const profile = await storage.getWatermarkProfile(image.watermark);
+    if (!profile) return undefined;
+    return {
+      variant: `wm-${profile.id}-${profile.updatedAt.getTime()}`,
+      apply: async (rendered: Derivative, quality?: number) =>
+        (await applyWatermark(rendered.data, profile, await storage.getWatermarkLogo(profile), quality)) ?? rendered,
+    };
+  };
+  
+  // Original bytes for download; a serve-time watermark is part of every copy handed out, so the
+  // original is only sent unmarked when the image has none
+  const sendOriginal = async (req: express.Request, res: Response, image: Image, bytes: Buffer, immutable: boolean) => {
+    const watermark = await servedWatermark(image);
+    if (!watermark) {
+      return sendImage(req, res, image, bytes, { immutable });
+    }
+    const variant = `raw_${watermark.variant}`;
+    const watermarked = await derivatives.get(image, variant, () =>
+      watermark.apply({ data: bytes, format: image.format ?? '' }, 92));
+    sendImage(req, res, image, watermarked.data, { variant, format: watermarked.format || undefined });
+  };
+  
+  // Stream frames are rendered on the worker pool and watermarked like any served image
+  const streams = new MjpegStreams(loadMjpegStreamConfig(), async (image, options) => {
+    const bytes = image && await storage.getImageData(image.id);
+    const frame = await workers.run('renderStreamFrame', bytes ?? null, options);
+    const watermark = image && await servedWatermark(image);
+    return watermark ? (await watermark.apply({ data: frame, format: 'jpeg' })).data : frame;
+  });
+  storage.getCurrentImage()
+    .then(image => streams.publish(image))
+    .catch(error => console.error('Error loading the streamed image:', error));
+  httpServer.on('close', () => streams.close());
+  
+  const retentionPolicy = loadRetentionPolicy();
+  const stopRetentionSweeper = startRetentionSweeper(storage, retentionPolicy, broadcastEvictions);
+  httpServer.on('close', stopRetentionSweeper);
 
   // Helper function to check if a string is a valid IPv4 address
   const isIPv4 = (str: string): boolean => {
@@ -168,42 +449,216 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
 
-  // Helper function to get image metadata
-  const getImageMetadata = async (buffer: Buffer) => {
+  // Shared tail of every upload route: deduplicate by content hash, store and broadcast
+  const ingestImage = async (
+    source: { type: string; filename: string; mimeType?: string },
+    upload: Buffer | string, // bytes, or the temp file they were streamed to
+    options: UploadOptions = {},
+  ) => {
+    // Watermarks applied at ingest are part of the stored bytes, and so of the hash
+    const watermarkId = options.watermark === undefined ? defaultWatermark() : options.watermark ?? undefined;
+    const watermark = watermarkId ? await storage.getWatermarkProfile(watermarkId) : undefined;
+    if (watermarkId && !watermark) {
+      throw new ImageValidationError(`Unknown watermark profile ${watermarkId}`, 400, 'unknown_watermark');
+    }
+    
+    // Re-encoded or resized copies of a stored image slip past the exact hash, so near-duplicates
+    // are found by the perceptual one. Without a check it is left to the processing job.
+    const nearDuplicateMode = options.nearDuplicates ?? nearDuplicatePolicy.mode;
+    
+    // Detect the real format (converting TIFF/HEIC, sanitizing SVG, rejecting anything else), then
+    // auto-rotate and strip metadata so the hash covers the bytes we actually store
+    const prepared = await workers.run('prepareUpload', upload, {
+      rasterizeSvg: options.rasterizeSvg ?? rasterizeSvgByDefault(),
+      limits: ingestLimits,
+      declaredType: source.mimeType,
+      stripMetadata: options.stripMetadata ?? stripMetadataByDefault(),
+      animatedToWebp: options.animatedToWebp ?? animatedToWebpByDefault(),
+      watermark: watermark?.applyAt === 'ingest'
+        ? { profile: watermark, logo: await storage.getWatermarkLogo(watermark) }
+        : undefined,
+      perceptualHash: nearDuplicateMode !== 'allow',
+    });
     try {
-      const metadata = await sharp(buffer).metadata();
-      return {
-        width: metadata.width,
-        height: metadata.height,
-        format: metadata.format,
-        size: buffer.length,
-      };
+      return await storePreparedUpload(source, prepared, watermark, nearDuplicateMode, options);
+    } finally {
+      await removeTempFile(prepared.file);
+    }
+  };
+  
+  const storePreparedUpload = async (
+    source: { type: string; filename: string },
+    prepared: PreparedUpload,
+    watermark: WatermarkProfile | undefined,
+    nearDuplicateMode: NearDuplicateMode,
+    options: UploadOptions,
+  ) => {
+    const { hash, phash, info: metadata, exif } = prepared;
+    const watermarkAt: 'ingest' | 'serve' | undefined = prepared.watermarked
+      ? 'ingest'
+      : watermark?.applyAt === 'serve' ? 'serve' : undefined;
+    
+    // Identical bytes were uploaded before: reuse that image and only record the upload. A serve-time
+    // watermark is not part of the bytes, so the one chosen by this upload replaces the stored one.
+    const existing = await storage.getImageByHash(hash);
+    if (existing) {
+      const promote = options.promote ?? true;
+      const upload = await storage.recordUpload(existing.id, {
+        type: source.type,
+        filename: source.filename,
+      }, promote);
+      let image = existing;
+      const served = watermarkAt === 'serve' ? watermark!.id : null;
+      if (existing.watermarkAt !== 'ingest' && watermarkAt !== 'ingest' && existing.watermark !== served) {
+        image = (await storage.setWatermark(image.id, { watermark: served, watermarkAt: served ? 'serve' : null })) ?? image;
+      }
+      if (options.pinned && !image.pinned) {
+        image = (await storage.setPinned(image.id, true)) ?? image;
+      }
+      
+      if (promote) {
+        broadcastImageUpdate(image);
+      }
+      return { image, duplicate: true, nearDuplicates: [], job: null, timestamp: upload.uploadedAt };
+    }
+    
+    const nearDuplicates = phash
+      ? await storage.findSimilarImages(phash, options.similarityThreshold ?? nearDuplicatePolicy.threshold)
+      : [];
+    if (nearDuplicates.length > 0 && nearDuplicateMode === 'reject') {
+      const [closest] = nearDuplicates;
+      throw new ImageValidationError(
+        `Image is a near-duplicate of ${closest.image.id} (distance ${closest.distance})`,
+        409,
+        'near_duplicate',
+      );
+    }
+    
+    // Store image
+    const image = await storage.storeImage({
+      type: source.type,
+      filename: source.filename,
+      format: metadata.format || prepared.format,
+      width: metadata.width,
+      height: metadata.height,
+      size: metadata.size,
+      hash,
+      pinned: options.pinned ?? false,
+      exif,
+      frameCount: metadata.animation?.frameCount,
+      loopCount: metadata.animation?.loopCount,
+      frameDelays: metadata.animation?.frameDelays,
+      duration: metadata.animation?.duration,
+      phash,
+      nearDuplicateOf: nearDuplicates[0]?.image.id,
+      watermark: watermarkAt ? watermark?.id : undefined,
+      watermarkAt,
+      ...metadata.color,
+    }, await fs.readFile(prepared.file));
+    
+    // Broadcast update to WebSocket clients
+    broadcastImageUpdate(image);
+    
+    // Placeholder and derivatives follow in the background; the original is usable right away
+    let job: Job | null = null;
+    try {
+      job = await jobs.enqueue('process_image', image.id);
     } catch (error) {
-      console.error('Error getting image metadata:', error);
-      return {
-        width: undefined,
-        height: undefined,
-        format: 'unknown',
-        size: buffer.length,
-      };
+      console.error('Error queueing image processing:', error);
+    }
+    
+    // Make room for the new image; failures here must not fail the upload
+    try {
+      const evicted = await enforceRetention(storage, retentionPolicy);
+      if (evicted.length > 0) {
+        broadcastEvictions(evicted);
+      }
+    } catch (error) {
+      console.error('Retention error:', error);
+    }
+    
+    return {
+      image,
+      duplicate: false,
+      nearDuplicates: nearDuplicates.map(match => ({ id: match.image.id, distance: match.distance })),
+      job,
+      timestamp: image.uploadedAt,
+    };
+  };
+  
+  // Raw pixels are encoded to PNG on a worker, then ingested like an uploaded PNG
+  const ingestRawPixels = async (
+    filename: string,
+    upload: Buffer | string,
+    format: RawPixelFormat,
+    options: UploadOptions = {},
+  ) => {
+    const png = await workers.run('encodeRawPixels', upload, format, ingestLimits);
+    try {
+      return await ingestImage({ type: 'raw', filename, mimeType: 'image/png' }, png, options);
+    } finally {
+      await removeTempFile(png);
     }
   };
+  
+  const uploadResponse = ({ image, duplicate, nearDuplicates, job, timestamp }: Awaited<ReturnType<typeof ingestImage>>) => ({
+    success: true,
+    message: duplicate ? 'Image already stored; existing copy reused' : 'Image uploaded successfully',
+    data: {
+      id: image.id,
+      dimensions: {
+        width: image.width,
+        height: image.height,
+      },
+      format: image.format,
+      size: image.size,
+      duplicate,
+      nearDuplicates, // visually similar stored images, when near-duplicates are flagged
+      job: job && { id: job.id, status: job.status, url: toJobResponse(job).url }, // background processing of a new image
+      timestamp: timestamp.toISOString(),
+    }
+  });
 
-  // API route for JSON image uploads (base64 and URL)
-  app.post('/api/v1/image/upload', async (req, res) => {
+  // API route for JSON image uploads (base64, URL and raw pixels)
+  app.post('/api/v1/image/upload', receiveJsonUpload, async (req, res) => {
+    let tempFile: string | undefined;
     try {
       const validatedData = imageUploadSchema.parse(req.body);
       
-      let imageBuffer: Buffer;
+      if (validatedData.type === 'raw') {
+        // Base64 pixels count against the base64 limit, like the body that carried them
+        const { width, height, channels, dtype, normalize } = validatedData;
+        const pixels = Buffer.from(validatedData.data, 'base64');
+        const maxBytes = uploadLimit(req, 'base64');
+        if (pixels.length > maxBytes) {
+          throw payloadTooLarge(maxBytes);
+        }
+        const result = await ingestRawPixels(
+          validatedData.metadata?.filename || 'raw-image',
+          pixels,
+          { width, height, channels, dtype, normalize },
+          validatedData.metadata,
+        );
+        return res.json(uploadResponse(result));
+      }
+      
+      let upload: Buffer | string;
       let filename: string;
-      let format: string;
+      let mimeType: string | undefined;
       
       if (validatedData.type === 'base64') {
         // Handle base64 image
-        const base64Data = validatedData.data.replace(/^data:image\/[a-z]+;base64,/, '');
-        imageBuffer = Buffer.from(base64Data, 'base64');
+        const dataUri = parseDataUri(validatedData.data);
+        if (dataUri.mimeType) {
+          assertSupportedMimeType(dataUri.mimeType);
+        }
+        upload = Buffer.from(dataUri.base64, 'base64');
+        const maxBytes = uploadLimit(req, 'base64');
+        if (upload.length > maxBytes) {
+          throw payloadTooLarge(maxBytes);
+        }
         filename = validatedData.metadata?.filename || 'base64-image';
-        format = validatedData.metadata?.format || 'unknown';
+        mimeType = dataUri.mimeType;
       } else {
         // Handle URL image - validate URL first for SSRF protection
         const validation = await validateImageUrl(validatedData.url);
@@ -228,7 +683,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         
-        // Verify content-type is an image
+        // Verify content-type is a supported image
         const contentType = response.headers.get('content-type');
         if (!contentType || !contentType.startsWith('image/')) {
           return res.status(400).json({ 
@@ -236,68 +691,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
             message: 'URL does not point to an image (invalid content-type)' 
           });
         }
+        assertSupportedMimeType(contentType);
         
-        // Check content-length if available (10MB limit)
+        // Refuse early when the declared length is already too much
+        const maxBytes = uploadLimit(req, 'url');
         const contentLength = response.headers.get('content-length');
-        if (contentLength && parseInt(contentLength) > 10 * 1024 * 1024) {
-          return res.status(400).json({ 
-            success: false, 
-            message: 'Image too large (max 10MB)' 
-          });
+        if (contentLength && parseInt(contentLength) > maxBytes) {
+          throw payloadTooLarge(maxBytes);
         }
         
-        const arrayBuffer = await response.arrayBuffer();
-        
-        // Double-check size after download
-        if (arrayBuffer.byteLength > 10 * 1024 * 1024) {
+        // Streamed to disk and cut off at the limit, whatever the server claimed
+        if (!response.body) {
           return res.status(400).json({ 
             success: false, 
-            message: 'Image too large (max 10MB)' 
+            message: 'Failed to fetch image from URL' 
           });
         }
-        
-        imageBuffer = Buffer.from(arrayBuffer);
+        upload = tempFile = await saveToTempFile(response.body, maxBytes);
         filename = validatedData.url.split('/').pop() || 'url-image';
-        format = contentType.split('/')[1] || 'unknown';
+        mimeType = contentType;
       }
       
-      // Get image metadata
-      const metadata = await getImageMetadata(imageBuffer);
-      
-      // Convert to base64 for storage
-      const base64String = `data:image/${metadata.format};base64,${imageBuffer.toString('base64')}`;
-      
-      // Store image
-      const storedImage = await storage.storeImage({
+      const result = await ingestImage({
         type: validatedData.type,
-        data: base64String,
         filename,
-        format: metadata.format || format,
-        width: metadata.width,
-        height: metadata.height,
-        size: metadata.size,
-      });
+        mimeType,
+      }, upload, validatedData.metadata);
       
-      // Broadcast update to WebSocket clients
-      broadcastImageUpdate(storedImage);
-      
-      res.json({
-        success: true,
-        message: 'Image uploaded successfully',
-        data: {
-          id: storedImage.id,
-          dimensions: {
-            width: storedImage.width,
-            height: storedImage.height,
-          },
-          format: storedImage.format,
-          size: storedImage.size,
-          timestamp: storedImage.uploadedAt.toISOString(),
-        }
-      });
+      res.json(uploadResponse(result));
     } catch (error) {
       console.error('Image upload error:', error);
       
+      if (error instanceof ImageValidationError) {
+        return rejectImage(res, error);
+      }
+      
+      if (error instanceof ProcessingUnavailableError) {
+        return rejectUnavailable(res, error);
+      }
+      
       if (error instanceof z.ZodError) {
         return res.status(400).json({
           success: false,
@@ -310,11 +742,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         success: false,
         message: 'Internal server error',
       });
+    } finally {
+      await removeTempFile(tempFile);
     }
   });
 
   // API route for multipart form uploads
-  app.post('/api/v1/image/upload/multipart', upload.single('image'), async (req, res) => {
+  app.post('/api/v1/image/upload/multipart', receiveImageFile, async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({
@@ -323,56 +757,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const imageBuffer = req.file.buffer;
-      const metadata = await getImageMetadata(imageBuffer);
-      
-      // Convert to base64 for storage
-      const base64String = `data:image/${metadata.format};base64,${imageBuffer.toString('base64')}`;
-      
       // Parse additional metadata if provided
-      let additionalMetadata = {};
+      let additionalMetadata: UploadOptions = {};
       if (req.body.metadata) {
         try {
-          additionalMetadata = JSON.parse(req.body.metadata);
+          const parsed = uploadOptionsSchema.safeParse(JSON.parse(req.body.metadata));
+          if (parsed.success) {
+            additionalMetadata = parsed.data;
+          }
         } catch (e) {
           // Ignore invalid metadata
         }
       }
       
-      // Store image
-      const storedImage = await storage.storeImage({
+      const result = await ingestImage({
         type: 'upload',
-        data: base64String,
         filename: req.file.originalname,
-        format: metadata.format || req.file.mimetype.split('/')[1],
-        width: metadata.width,
-        height: metadata.height,
-        size: metadata.size,
-      });
+        mimeType: req.file.mimetype,
+      }, req.file.path, additionalMetadata);
       
-      // Broadcast update to WebSocket clients
-      broadcastImageUpdate(storedImage);
+      res.json(uploadResponse(result));
+    } catch (error) {
+      console.error('Multipart upload error:', error);
       
-      res.json({
-        success: true,
-        message: 'Image uploaded successfully',
-        data: {
-          id: storedImage.id,
-          dimensions: {
-            width: storedImage.width,
-            height: storedImage.height,
-          },
-          format: storedImage.format,
-          size: storedImage.size,
-          timestamp: storedImage.uploadedAt.toISOString(),
-        }
+      if (error instanceof ImageValidationError) {
+        return rejectImage(res, error);
+      }
+      
+      if (error instanceof ProcessingUnavailableError) {
+        return rejectUnavailable(res, error);
+      }
+      
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
       });
+    } finally {
+      await removeTempFile(req.file?.path);
+    }
+  });
+
+  // API route for raw pixel bodies (application/octet-stream); the layout is in the query string
+  app.post('/api/v1/image/upload/raw', async (req, res) => {
+    let tempFile: string | undefined;
+    try {
+      if (!req.is('application/octet-stream')) {
+        throw new ImageValidationError('Raw pixel uploads must be sent as application/octet-stream', 415, 'unsupported_type');
+      }
+      const { metadata, ...format } = rawUploadQuerySchema.parse(req.query);
+      
+      // The layout fixes the body size, so an image over the limit is refused before it is read
+      const maxBytes = uploadLimit(req, 'raw');
+      if (rawByteLength(format) > maxBytes) {
+        throw payloadTooLarge(maxBytes);
+      }
+      tempFile = await saveToTempFile(req, maxBytes);
+      
+      const result = await ingestRawPixels(metadata?.filename || 'raw-image', tempFile, format, metadata);
+      
+      res.json(uploadResponse(result));
     } catch (error) {
-      console.error('Multipart upload error:', error);
+      console.error('Raw upload error:', error);
+      
+      if (error instanceof ImageValidationError) {
+        return rejectImage(res, error);
+      }
+      
+      if (error instanceof ProcessingUnavailableError) {
+        return rejectUnavailable(res, error);
+      }
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid request format',
+          errors: error.errors,
+        });
+      }
+      
       res.status(500).json({
         success: false,
         message: 'Internal server error',
       });
+    } finally {
+      await removeTempFile(tempFile);
     }
   });
 
@@ -390,7 +858,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({
         success: true,
-        data: currentImage,
+        data: toImageResponse(currentImage),
       });
     } catch (error) {
       console.error('Get current image error:', error);
@@ -401,5 +869,725 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // MJPEG stream of the current image for OBS, VLC and other multipart/x-mixed-replace consumers
+  app.get('/api/v1/stream.mjpeg', (req, res) => {
+    const query = mjpegStreamQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid query parameters',
+        errors: query.error.errors,
+      });
+    }
+    if (streams.full) {
+      return res.status(503).set('Retry-After', '30').json({
+        success: false,
+        message: 'Too many streams open, retry later',
+        code: 'too_many_streams',
+      });
+    }
+    
+    streams.open(req, res, query.data);
+  });
+
+  // Browse image history without downloading image bytes
+  app.get('/api/v1/images', async (req, res) => {
+    try {
+      const query = imageListQuerySchema.parse(req.query);
+      const page = await storage.listImages(query);
+      
+      res.json({
+        success: true,
+        data: page.images.map(toImageResponse),
+        nextCursor: page.nextCursor,
+      });
+    } catch (error) {
+      console.error('List images error:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.errors,
+        });
+      }
+      
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Stored images that look like the given one, closest first
+  app.get('/api/v1/images/similar/:id', async (req, res) => {
+    try {
+      const query = similarImagesQuerySchema.parse(req.query);
+      const image = await storage.getImage(req.params.id);
+      if (!image) {
+        return res.status(404).json({
+          success: false,
+          message: 'Image not found',
+        });
+      }
+      if (!image.phash) {
+        return res.status(409).json({
+          success: false,
+          message: 'Image has no perceptual hash',
+        });
+      }
+      
+      const matches = await storage.findSimilarImages(image.phash, query.threshold ?? nearDuplicatePolicy.threshold, image.id);
+      res.json({
+        success: true,
+        data: matches.slice(0, query.limit).map(match => ({
+          ...toImageResponse(match.image),
+          distance: match.distance,
+        })),
+      });
+    } catch (error) {
+      console.error('Similar images error:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.errors,
+        });
+      }
+      
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Diffs decode both images in full, so they run on the worker pool and are kept for the image
+  // linked from the diff response and for repeated requests
+  const diffs = new ImageDiffCache(DIFF_CACHE_ENTRIES);
+  
+  // Diff of two stored images; answers 404 or 413 itself when they cannot be compared
+  const diffStoredImages = async (res: Response, baseId: string, compareId: string, threshold: number) => {
+    const [base, compare] = await Promise.all([storage.getImage(baseId), storage.getImage(compareId)]);
+    if (!base || !compare) {
+      res.status(404).json({
+        success: false,
+        message: 'Image not found',
+      });
+      return undefined;
+    }
+    
+    // Same bound as on-the-fly transforms
+    const tooLarge = [base, compare].some(image =>
+      (image.width ?? 0) > transformLimits.maxDimension || (image.height ?? 0) > transformLimits.maxDimension);
+    if (tooLarge) {
+      res.status(413).json({
+        success: false,
+        message: `Images larger than ${transformLimits.maxDimension}px cannot be compared`,
+      });
+      return undefined;
+    }
+    
+    const diff = await diffs.get(`${base.id}:${compare.id}:${threshold}`, async () => {
+      const [baseBytes, compareBytes] = await Promise.all([storage.getImageData(base.id), storage.getImageData(compare.id)]);
+      return baseBytes && compareBytes ? workers.run('diffImages', baseBytes, compareBytes, threshold) : undefined;
+    });
+    if (!diff) {
+      res.status(404).json({
+        success: false,
+        message: 'Image data not found',
+      });
+      return undefined;
+    }
+    return { base, compare, diff };
+  };
+  
+  // Pixel diff of two stored images, e.g. consecutive screenshots
+  app.post('/api/v1/images/diff', async (req, res) => {
+    try {
+      const { baseId, compareId, threshold } = imageDiffSchema.parse(req.body);
+      const compared = await diffStoredImages(res, baseId, compareId, threshold);
+      if (!compared) return;
+      
+      const { diff } = compared;
+      const data: ImageDiffResponse = {
+        baseId,
+        compareId,
+        width: diff.width,
+        height: diff.height,
+        changedPixels: diff.changedPixels,
+        changedPercent: diff.changedPercent,
+        regions: diff.regions,
+        url: `/api/v1/images/diff/${encodeURIComponent(baseId)}/${encodeURIComponent(compareId)}?threshold=${threshold}`,
+      };
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error('Image diff error:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid request format',
+          errors: error.errors,
+        });
+      }
+      
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+  
+  // PNG of a pixel diff; stored images never change, so neither does their diff
+  app.get('/api/v1/images/diff/:baseId/:compareId', async (req, res) => {
+    try {
+      const { threshold } = imageDiffQuerySchema.parse(req.query);
+      const compared = await diffStoredImages(res, req.params.baseId, req.params.compareId, threshold);
+      if (!compared) return;
+      
+      const { base, compare, diff } = compared;
+      sendImage(req, res, compare, diff.image, { variant: `diff-${base.hash ?? base.id}-${threshold}`, format: 'png', immutable: true });
+    } catch (error) {
+      console.error('Image diff error:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.errors,
+        });
+      }
+      
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // State of a background job, e.g. the processing started by an upload
+  app.get('/api/v1/jobs/:id', async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          message: 'Job not found',
+        });
+      }
+      
+      res.json({
+        success: true,
+        data: toJobResponse(job),
+      });
+    } catch (error) {
+      console.error('Get job error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Show a previously stored image again
+  app.put('/api/v1/image/current', async (req, res) => {
+    try {
+      const { id } = setCurrentImageSchema.parse(req.body);
+      const image = await storage.setCurrentImage(id);
+      
+      if (!image) {
+        return res.status(404).json({
+          success: false,
+          message: 'Image not found',
+        });
+      }
+      
+      broadcastImageUpdate(image);
+      
+      res.json({
+        success: true,
+        data: toImageResponse(image),
+      });
+    } catch (error) {
+      console.error('Set current image error:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid request format',
+          errors: error.errors,
+        });
+      }
+      
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Go back to whatever was displayed before the current image
+  app.post('/api/v1/image/current/undo', async (req, res) => {
+    try {
+      const previous = await storage.getCurrentImage();
+      const image = await storage.revertCurrentImage();
+      
+      if (image === undefined) {
+        return res.status(409).json({
+          success: false,
+          message: 'No previous image to revert to',
+        });
+      }
+      
+      if (image) {
+        broadcastImageUpdate(image);
+      } else if (previous) {
+        broadcastImageCleared(previous);
+      }
+      
+      res.json({
+        success: true,
+        data: image ? toImageResponse(image) : null,
+      });
+    } catch (error) {
+      console.error('Undo current image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Stop displaying the current image; it stays in history
+  app.delete('/api/v1/image/current', async (req, res) => {
+    try {
+      const cleared = await storage.clearCurrentImage();
+      
+      if (!cleared) {
+        return res.status(404).json({
+          success: false,
+          message: 'No image available',
+        });
+      }
+      
+      broadcastImageCleared(cleared);
+      
+      res.json({
+        success: true,
+        message: 'Current image cleared',
+        data: { id: cleared.id },
+      });
+    } catch (error) {
+      console.error('Clear current image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Delete an image and its bytes; displays showing it are blanked
+  app.delete('/api/v1/image/:id', async (req, res) => {
+    try {
+      const current = await storage.getCurrentImage();
+      const deleted = await storage.deleteImage(req.params.id);
+      
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          message: 'Image not found',
+        });
+      }
+      
+      if (current?.id === req.params.id) {
+        broadcastImageCleared(current);
+      }
+      
+      res.json({
+        success: true,
+        message: 'Image deleted',
+        data: { id: req.params.id },
+      });
+    } catch (error) {
+      console.error('Delete image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Pin or unpin an image (pinned images are exempt from retention)
+  app.put('/api/v1/image/:id/pin', async (req, res) => {
+    try {
+      const { pinned } = pinImageSchema.parse(req.body);
+      const image = await storage.setPinned(req.params.id, pinned);
+      
+      if (!image) {
+        return res.status(404).json({
+          success: false,
+          message: 'Image not found',
+        });
+      }
+      
+      res.json({
+        success: true,
+        data: toImageResponse(image),
+      });
+    } catch (error) {
+      console.error('Pin image error:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid request format',
+          errors: error.errors,
+        });
+      }
+      
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Get the original bytes of the current image (revalidated, as the current image changes)
+  app.get('/api/v1/image/current/raw', async (req, res) => {
+    try {
+      const image = await storage.getCurrentImage();
+      const bytes = image && await storage.getImageData(image.id);
+      
+      if (!image || !bytes) {
+        return res.status(404).json({
+          success: false,
+          message: 'No image available',
+        });
+      }
+      
+      await sendOriginal(req, res, image, bytes, false);
+    } catch (error) {
+      console.error('Get current raw image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Get the original bytes of an image
+  app.get('/api/v1/image/:id/raw', async (req, res) => {
+    try {
+      const image = await storage.getImage(req.params.id);
+      const bytes = image && await storage.getImageData(image.id);
+      
+      if (!image || !bytes) {
+        return res.status(404).json({
+          success: false,
+          message: 'Image not found',
+        });
+      }
+      
+      await sendOriginal(req, res, image, bytes, true);
+    } catch (error) {
+      console.error('Get raw image error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Get the sanitized metadata summary of an image
+  app.get('/api/v1/image/:id/metadata', async (req, res) => {
+    try {
+      const image = await storage.getImage(req.params.id);
+      
+      if (!image) {
+        return res.status(404).json({
+          success: false,
+          message: 'Image not found',
+        });
+      }
+      
+      res.json({
+        success: true,
+        data: {
+          id: image.id,
+          format: image.format,
+          dimensions: {
+            width: image.width,
+            height: image.height,
+          },
+          size: image.size,
+          exif: image.exif,
+          animation: image.frameCount ? {
+            frameCount: image.frameCount,
+            loopCount: image.loopCount,
+            frameDelays: image.frameDelays,
+            duration: image.duration,
+          } : null,
+          colorProfile: {
+            colorSpace: image.colorSpace,
+            bitDepth: image.bitDepth,
+            iccProfile: image.iccProfile,
+            // Display responses (`url`, derivatives) are converted to 8-bit sRGB; `rawUrl` keeps the original
+            convertedForDisplay: !isDisplayReady(image),
+          },
+          colors: image.dominantColor ? {
+            dominant: image.dominantColor,
+            palette: image.palette,
+            blurhash: image.blurhash,
+          } : null,
+        },
+      });
+    } catch (error) {
+      console.error('Get image metadata error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Get a derivative generated at upload time (see image.derivatives)
+  app.get('/api/v1/image/:id/derivatives/:name', async (req, res) => {
+    try {
+      const image = await storage.getImage(req.params.id);
+      const stored = image && await storage.getDerivativeData(image.id, req.params.name);
+      
+      if (!image || !stored) {
+        return res.status(404).json({
+          success: false,
+          message: 'Derivative not found',
+        });
+      }
+      
+      const watermark = await servedWatermark(image);
+      if (watermark) {
+        const variant = `${stored.derivative.name}_${watermark.variant}`;
+        const watermarked = await derivatives.get(image, variant, () =>
+          watermark.apply({ data: stored.bytes, format: stored.derivative.format }));
+        return sendImage(req, res, image, watermarked.data, { variant, format: watermarked.format });
+      }
+      
+      sendImage(req, res, image, stored.bytes, {
+        immutable: true,
+        variant: stored.derivative.name,
+        format: stored.derivative.format,
+      });
+    } catch (error) {
+      console.error('Get derivative error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Get an image, optionally resized and/or converted (?w=&h=&fit=&fmt=&q=&dpr=).
+  // Without `fmt` the format follows the Accept header: AVIF, then WebP, then the original.
+  app.get('/api/v1/image/:id', async (req, res) => {
+    try {
+      const query = imageTransformQuerySchema.parse(req.query);
+      const validation = validateTransform(query, transformLimits);
+      if (!validation.valid) {
+        return res.status(400).json({
+          success: false,
+          message: validation.error || 'Invalid transform',
+        });
+      }
+      
+      const image = await storage.getImage(req.params.id);
+      const bytes = image && await storage.getImageData(image.id);
+      
+      if (!image || !bytes) {
+        return res.status(404).json({
+          success: false,
+          message: 'Image not found',
+        });
+      }
+      
+      let negotiated: string | undefined;
+      if (!query.fmt) {
+        res.vary('Accept');
+        negotiated = negotiateFormat(req.get('Accept'), image.format);
+      }
+      
+      const effective = negotiated ? { ...query, fmt: negotiated as typeof query.fmt } : query;
+      const watermark = await servedWatermark(image);
+      const displayReady = isDisplayReady(image);
+      if (!wantsTransform(effective) && !watermark && displayReady) {
+        return sendImage(req, res, image, bytes, { immutable: true });
+      }
+      
+      // Watermarked responses change with their profile, so they are revalidated rather than immutable
+      const variant = watermark ? `${variantKey(effective)}_${watermark.variant}` : variantKey(effective);
+      const derivative = await derivatives.get(image, variant, async () => {
+        const rendered = await renderDerivative(bytes, image.format, effective);
+        return watermark ? watermark.apply(rendered) : rendered;
+      });
+      
+      // A negotiated conversion that did not shrink the untouched original is not worth sending
+      if (negotiated && !wantsTransform(query) && !watermark && displayReady && derivative.data.length >= bytes.length) {
+        return sendImage(req, res, image, bytes, { immutable: true });
+      }
+      
+      sendImage(req, res, image, derivative.data, {
+        immutable: !watermark,
+        variant,
+        format: derivative.format,
+      });
+    } catch (error) {
+      console.error('Transform image error:', error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid query parameters',
+          errors: error.errors,
+        });
+      }
+      
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Watermark profiles (admin)
+  app.get('/api/v1/admin/watermarks', requireAdmin, async (req, res) => {
+    try {
+      const profiles = await storage.listWatermarkProfiles();
+      res.json({
+        success: true,
+        data: profiles.map(toWatermarkResponse),
+      });
+    } catch (error) {
+      console.error('List watermarks error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  app.get('/api/v1/admin/watermarks/:id', requireAdmin, async (req, res) => {
+    try {
+      const profile = await storage.getWatermarkProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({
+          success: false,
+          message: 'Watermark profile not found',
+        });
+      }
+      
+      res.json({
+        success: true,
+        data: toWatermarkResponse(profile),
+      });
+    } catch (error) {
+      console.error('Get watermark error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Create or replace a profile; image profiles send the logo as base64 or a data URI
+  app.put('/api/v1/admin/watermarks/:id', requireAdmin, receiveJsonUpload, async (req, res) => {
+    try {
+      const id = watermarkProfileIdSchema.parse(req.params.id);
+      const { image, ...fields } = watermarkProfileSchema.parse(req.body);
+      const existing = await storage.getWatermarkProfile(id);
+      
+      // Logos go through the same checks as uploads and are kept as PNG
+      let logo: Buffer | undefined;
+      if (image) {
+        const dataUri = parseDataUri(image);
+        if (dataUri.mimeType) {
+          assertSupportedMimeType(dataUri.mimeType);
+        }
+        logo = await workers.run('prepareLogo', Buffer.from(dataUri.base64, 'base64'), ingestLimits, dataUri.mimeType);
+      }
+      if (fields.kind === 'image' && !logo && !existing?.logo) {
+        return res.status(400).json({
+          success: false,
+          message: 'Image watermarks need an image',
+        });
+      }
+      
+      const profile = await storage.saveWatermarkProfile({
+        id,
+        kind: fields.kind,
+        text: fields.text ?? null,
+        position: fields.position,
+        opacity: fields.opacity,
+        scale: fields.scale,
+        applyAt: fields.applyAt,
+      }, logo);
+      // Streamed frames carry serve-time watermarks
+      streams.redraw();
+      
+      res.status(existing ? 200 : 201).json({
+        success: true,
+        data: toWatermarkResponse(profile),
+      });
+    } catch (error) {
+      console.error('Save watermark error:', error);
+      
+      if (error instanceof ImageValidationError) {
+        return rejectImage(res, error);
+      }
+      
+      if (error instanceof ProcessingUnavailableError) {
+        return rejectUnavailable(res, error);
+      }
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid request format',
+          errors: error.errors,
+        });
+      }
+      
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
+  // Images already watermarked at ingest keep their pixels; serve-time ones are served without it
+  app.delete('/api/v1/admin/watermarks/:id', requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteWatermarkProfile(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({
+          success: false,
+          message: 'Watermark profile not found',
+        });
+      }
+      streams.redraw();
+      
+      res.json({
+        success: true,
+        message: 'Watermark profile deleted',
+        data: { id: req.params.id },
+      });
+    } catch (error) {
+      console.error('Delete watermark error:', error);
+      res.status(500).json({
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  });
+
   return httpServer;
 }
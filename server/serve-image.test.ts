@@ -0,0 +1,122 @@
+import type { AddressInfo } from "net";
+import { get as httpGet, type IncomingHttpHeaders, type Server } from "http";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Image } from "@shared/schema";
+import { sendImage } from "./serve-image";
+import { MemStorage } from "./storage";
+import { MemBlobStore } from "./blob-store";
+
+const bytes = Buffer.from(Array.from({ length: 100 }, (_, i) => i));
+
+let server: Server;
+let image: Image;
+let url: string;
+
+beforeAll(async () => {
+  const storage = new MemStorage(new MemBlobStore());
+  image = await storage.storeImage({ type: "upload", filename: "photo.png", format: "png", width: 10, height: 10, size: bytes.length, hash: "abc" }, bytes);
+
+  const app = express();
+  app.get("/image", (req, res) => sendImage(req, res, image, bytes));
+  server = app.listen(0);
+  await new Promise(resolve => server.once("listening", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/image`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+interface TestResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+// Plain http rather than fetch, which adds `Cache-Control: no-cache` to conditional requests
+const get = (headers: Record<string, string> = {}) =>
+  new Promise<TestResponse>((resolve, reject) => {
+    httpGet(url, { headers }, response => {
+      const chunks: Buffer[] = [];
+      response.on("data", chunk => chunks.push(chunk));
+      response.on("end", () => resolve({ status: response.statusCode!, headers: response.headers, body: Buffer.concat(chunks) }));
+    }).on("error", reject);
+  });
+
+describe("sendImage", () => {
+  it("sends the whole image with its validators", async () => {
+    const response = await get();
+    expect(response.status).toBe(200);
+    expect(response.headers["etag"]).toBe('"abc"');
+    expect(response.headers["last-modified"]).toBe(image.uploadedAt.toUTCString());
+    expect(response.headers["accept-ranges"]).toBe("bytes");
+    expect(response.body.equals(bytes)).toBe(true);
+  });
+
+  describe("ranges", () => {
+    it("sends a single range", async () => {
+      const response = await get({ Range: "bytes=10-19" });
+      expect(response.status).toBe(206);
+      expect(response.headers["content-range"]).toBe("bytes 10-19/100");
+      expect(response.headers["content-length"]).toBe("10");
+      expect(response.body.equals(bytes.subarray(10, 20))).toBe(true);
+    });
+
+    it("sends an open-ended range up to the last byte", async () => {
+      const response = await get({ Range: "bytes=95-" });
+      expect(response.status).toBe(206);
+      expect(response.headers["content-range"]).toBe("bytes 95-99/100");
+      expect(response.body.equals(bytes.subarray(95))).toBe(true);
+    });
+
+    it("sends a suffix range from the end", async () => {
+      const response = await get({ Range: "bytes=-5" });
+      expect(response.status).toBe(206);
+      expect(response.headers["content-range"]).toBe("bytes 95-99/100");
+      expect(response.body.equals(bytes.subarray(95))).toBe(true);
+    });
+
+    it("answers 416 for a range past the end", async () => {
+      const response = await get({ Range: "bytes=200-300" });
+      expect(response.status).toBe(416);
+      expect(response.headers["content-range"]).toBe("bytes */100");
+    });
+
+    it("sends the whole image for several ranges", async () => {
+      const response = await get({ Range: "bytes=0-4,50-54" });
+      expect(response.status).toBe(200);
+      expect(response.body.equals(bytes)).toBe(true);
+    });
+
+    it("sends the whole image when If-Range no longer matches", async () => {
+      const stale = await get({ Range: "bytes=0-9", "If-Range": '"old"' });
+      expect(stale.status).toBe(200);
+      expect(stale.body.length).toBe(100);
+
+      const current = await get({ Range: "bytes=0-9", "If-Range": '"abc"' });
+      expect(current.status).toBe(206);
+    });
+  });
+
+  describe("conditional requests", () => {
+    it("answers 304 when If-None-Match has the ETag", async () => {
+      expect((await get({ "If-None-Match": '"abc"' })).status).toBe(304);
+      expect((await get({ "If-None-Match": '"other", "abc"' })).status).toBe(304);
+      expect((await get({ "If-None-Match": '"other"' })).status).toBe(200);
+    });
+
+    it("answers 304 when not modified since If-Modified-Since", async () => {
+      const later = new Date(image.uploadedAt.getTime() + 60_000).toUTCString();
+      const earlier = new Date(image.uploadedAt.getTime() - 60_000).toUTCString();
+      expect((await get({ "If-Modified-Since": image.uploadedAt.toUTCString() })).status).toBe(304);
+      expect((await get({ "If-Modified-Since": later })).status).toBe(304);
+      expect((await get({ "If-Modified-Since": earlier })).status).toBe(200);
+    });
+
+    it("ignores If-Modified-Since when If-None-Match does not match", async () => {
+      const response = await get({ "If-None-Match": '"other"', "If-Modified-Since": image.uploadedAt.toUTCString() });
+      expect(response.status).toBe(200);
+    });
+  });
+});
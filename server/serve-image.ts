@@ -0,0 +1,94 @@
+import type { Request, Response } from "express";
+import { createHash } from "crypto";
+import type { Image } from "@shared/schema";
+
+const MIME_TYPES: Record<string, string> = {
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  heif: "image/heif",
+  heic: "image/heic",
+  tiff: "image/tiff",
+  svg: "image/svg+xml",
+};
+
+export const contentTypeFor = (format: string | null | undefined) =>
+  (format && MIME_TYPES[format.toLowerCase()]) || "application/octet-stream";
+
+// RFC 6266 header with an ASCII fallback and the UTF-8 name for clients that support it
+const contentDisposition = (type: "inline" | "attachment", filename: string) => {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\%]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+};
+
+// Derivatives keep the original name but get the extension of their own format
+const withExtension = (filename: string, format: string | null | undefined) => {
+  if (!format || !MIME_TYPES[format]) return filename;
+  const current = filename.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase();
+  if (current && MIME_TYPES[current] === MIME_TYPES[format]) return filename;
+  return `${current ? filename.slice(0, -current.length - 1) : filename}.${format === "jpeg" ? "jpg" : format}`;
+};
+
+export interface SendImageOptions {
+  // Bytes behind an image id never change, so they can be cached forever
+  immutable?: boolean;
+  // Set when sending a derivative rather than the original bytes
+  variant?: string;
+  format?: string;
+}
+
+// Sends image bytes with validators, conditional GET (304) and single byte-range support
+export function sendImage(req: Request, res: Response, image: Image, bytes: Buffer, options: SendImageOptions = {}) {
+  const digest = image.hash ?? createHash("sha256").update(bytes).digest("hex");
+  const etag = `"${options.variant ? `${digest}-${options.variant}` : digest}"`;
+  const lastModified = image.uploadedAt.toUTCString();
+  const format = options.format ?? image.format;
+  const filename = withExtension(image.filename || `image-${image.id}`, format);
+
+  res.set({
+    "Content-Type": contentTypeFor(format),
+    "Content-Disposition": contentDisposition(req.query.download ? "attachment" : "inline", filename),
+    "Cache-Control": options.immutable ? "public, max-age=31536000, immutable" : "no-cache",
+    "Accept-Ranges": "bytes",
+    ETag: etag,
+    "Last-Modified": lastModified,
+  });
+
+  // Sanitized SVGs are still documents: never let one run script or load anything
+  if (format === "svg") {
+    res.set({
+      "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+      "X-Content-Type-Options": "nosniff",
+    });
+  }
+
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+
+  // A stale If-Range means the client's partial copy is outdated: send everything
+  const ifRange = req.get("If-Range");
+  const rangeApplies = !ifRange || ifRange === etag || ifRange === lastModified;
+  const ranges = req.get("Range") && rangeApplies ? req.range(bytes.length, { combine: true }) : undefined;
+
+  if (ranges === -1) {
+    res.set("Content-Range", `bytes */${bytes.length}`);
+    return res.status(416).end();
+  }
+
+  // Multiple ranges would need a multipart/byteranges body; serve the whole image instead
+  if (Array.isArray(ranges) && ranges.type === "bytes" && ranges.length === 1) {
+    const { start, end } = ranges[0];
+    res.status(206).set({
+      "Content-Range": `bytes ${start}-${end}/${bytes.length}`,
+      "Content-Length": String(end - start + 1),
+    });
+    return res.end(bytes.subarray(start, end + 1));
+  }
+
+  res.set("Content-Length", String(bytes.length));
+  res.end(bytes);
+}
@@ -0,0 +1,275 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import { imageListQuerySchema } from "@shared/schema";
+import { DrizzleStorage, type IStorage, type NewImage } from "./storage";
+import { MemBlobStore } from "./blob-store";
+import type { Database } from "./db";
+import { createPgliteStorage, migrationsFolder, pgliteDatabase, storageImplementations } from "./test-storage";
+
+const newImage = (overrides: Partial<NewImage> = {}): NewImage => ({
+  type: "upload",
+  filename: "photo.jpg",
+  format: "jpeg",
+  width: 640,
+  height: 480,
+  size: 1000,
+  ...overrides,
+});
+
+const listQuery = (query: Record<string, unknown> = {}) => imageListQuerySchema.parse(query);
+
+describe.each(storageImplementations)("%s", (_name, create) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await create();
+  });
+
+  describe("images", () => {
+    it("stores an image as current and keeps its bytes", async () => {
+      const image = await storage.storeImage(newImage({ hash: "abc" }), Buffer.from("bytes"));
+
+      expect((await storage.getCurrentImage())?.id).toBe(image.id);
+      expect(await storage.getImage(image.id)).toMatchObject({ filename: "photo.jpg", width: 640, pinned: false });
+      expect((await storage.getImageByHash("abc"))?.id).toBe(image.id);
+      expect((await storage.getImageData(image.id))?.toString()).toBe("bytes");
+    });
+
+    it("returns undefined for unknown images", async () => {
+      expect(await storage.getImage("missing")).toBeUndefined();
+      expect(await storage.getImageData("missing")).toBeUndefined();
+      expect(await storage.getImageByHash("missing")).toBeUndefined();
+      expect(await storage.getCurrentImage()).toBeUndefined();
+    });
+
+    it("records duplicate uploads and promotes only when asked", async () => {
+      const first = await storage.storeImage(newImage(), Buffer.from("a"));
+      const second = await storage.storeImage(newImage(), Buffer.from("b"));
+
+      const kept = await storage.recordUpload(first.id, { type: "base64", filename: "again.jpg" }, false);
+      expect(kept).toMatchObject({ imageId: first.id, duplicate: true });
+      expect((await storage.getCurrentImage())?.id).toBe(second.id);
+
+      await storage.recordUpload(first.id, { type: "base64", filename: "again.jpg" }, true);
+      expect((await storage.getCurrentImage())?.id).toBe(first.id);
+    });
+
+    it("pins and unpins", async () => {
+      const image = await storage.storeImage(newImage(), Buffer.from("a"));
+      expect((await storage.setPinned(image.id, true))?.pinned).toBe(true);
+      expect((await storage.setPinned(image.id, false))?.pinned).toBe(false);
+      expect(await storage.setPinned("missing", true)).toBeUndefined();
+    });
+
+    it("sets and clears the serve-time watermark", async () => {
+      const image = await storage.storeImage(newImage(), Buffer.from("a"));
+      expect(await storage.setWatermark(image.id, { watermark: "brand", watermarkAt: "serve" })).toMatchObject({ watermark: "brand", watermarkAt: "serve" });
+      expect(await storage.setWatermark(image.id, { watermark: null, watermarkAt: null })).toMatchObject({ watermark: null, watermarkAt: null });
+      expect(await storage.setWatermark("missing", { watermark: null, watermarkAt: null })).toBeUndefined();
+    });
+
+    it("adds derivatives, replacing ones with the same name", async () => {
+      const image = await storage.storeImage(newImage(), Buffer.from("a"));
+      const derivative = { name: "w160", format: "webp", width: 160, height: 120, size: 3 };
+
+      await storage.addDerivatives(image.id, [{ derivative, bytes: Buffer.from("old") }]);
+      const updated = await storage.addDerivatives(image.id, [{ derivative, bytes: Buffer.from("new") }]);
+
+      expect(updated?.derivatives.map(entry => entry.name)).toEqual(["w160"]);
+      expect((await storage.getDerivativeData(image.id, "w160"))?.bytes.toString()).toBe("new");
+      expect(await storage.getDerivativeData(image.id, "w320")).toBeUndefined();
+    });
+
+    it("updates the analysis of an image", async () => {
+      const image = await storage.storeImage(newImage(), Buffer.from("a"));
+      const updated = await storage.updateImageAnalysis(image.id, {
+        dominantColor: "#112233",
+        palette: ["#112233", "#445566"],
+        blurhash: "LEHV6nWB2yk8",
+        phash: "0000000000000000",
+      });
+
+      expect(updated).toMatchObject({ dominantColor: "#112233", palette: ["#112233", "#445566"], phash: "0000000000000000" });
+      expect(await storage.getImage(image.id)).toMatchObject({ blurhash: "LEHV6nWB2yk8" });
+    });
+
+    it("finds similar images, closest first", async () => {
+      const base = await storage.storeImage(newImage({ phash: "0000000000000000" }), Buffer.from("a"));
+      const close = await storage.storeImage(newImage({ phash: "0000000000000001" }), Buffer.from("b"));
+      const closer = await storage.storeImage(newImage({ phash: "0000000000000000" }), Buffer.from("c"));
+      await storage.storeImage(newImage({ phash: "ffffffffffffffff" }), Buffer.from("d"));
+
+      const similar = await storage.findSimilarImages("0000000000000000", 4, base.id);
+      expect(similar.map(match => [match.image.id, match.distance])).toEqual([[closer.id, 0], [close.id, 1]]);
+    });
+
+    it("deletes an image with its bytes and clears it from the display", async () => {
+      const image = await storage.storeImage(newImage(), Buffer.from("a"));
+
+      expect(await storage.deleteImage(image.id)).toBe(true);
+      expect(await storage.getImage(image.id)).toBeUndefined();
+      expect(await storage.getImageData(image.id)).toBeUndefined();
+      expect(await storage.getCurrentImage()).toBeUndefined();
+      expect(await storage.deleteImage(image.id)).toBe(false);
+    });
+  });
+
+  describe("display", () => {
+    it("sets, clears and reverts the current image", async () => {
+      const first = await storage.storeImage(newImage(), Buffer.from("a"));
+      const second = await storage.storeImage(newImage(), Buffer.from("b"));
+
+      expect((await storage.setCurrentImage(first.id))?.id).toBe(first.id);
+      expect((await storage.clearCurrentImage())?.id).toBe(first.id);
+      expect(await storage.getCurrentImage()).toBeUndefined();
+
+      expect((await storage.revertCurrentImage())?.id).toBe(first.id);
+      expect((await storage.revertCurrentImage())?.id).toBe(second.id);
+      expect((await storage.revertCurrentImage())?.id).toBe(first.id);
+    });
+
+    it("reverts to a cleared display as null and has nothing to revert to at first", async () => {
+      expect(await storage.revertCurrentImage()).toBeUndefined();
+
+      const first = await storage.storeImage(newImage(), Buffer.from("a"));
+      await storage.clearCurrentImage();
+      await storage.storeImage(newImage(), Buffer.from("b"));
+
+      expect(await storage.revertCurrentImage()).toBeNull();
+      expect(await storage.getCurrentImage()).toBeUndefined();
+      expect((await storage.revertCurrentImage())?.id).toBe(first.id);
+      expect(await storage.setCurrentImage("missing")).toBeUndefined();
+    });
+  });
+
+  describe("listImages", () => {
+    it("pages through every image exactly once", async () => {
+      const stored = [];
+      for (let i = 0; i < 7; i++) {
+        stored.push(await storage.storeImage(newImage({ filename: `image-${i}.png`, size: 100 * (i % 3) }), Buffer.from(`${i}`)));
+      }
+
+      for (const sort of ["uploadedAt", "size"] as const) {
+        const seen: string[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await storage.listImages(listQuery({ sort, limit: 3, cursor }));
+          seen.push(...page.images.map(image => image.id));
+          cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+
+        expect(seen).toHaveLength(stored.length);
+        expect(new Set(seen)).toEqual(new Set(stored.map(image => image.id)));
+      }
+    });
+
+    it("filters by type, format and filename", async () => {
+      await storage.storeImage(newImage({ type: "url", filename: "Holiday.JPG" }), Buffer.from("a"));
+      await storage.storeImage(newImage({ type: "upload", format: "png", filename: "diagram.png" }), Buffer.from("b"));
+
+      expect((await storage.listImages(listQuery({ type: "url" }))).images.map(image => image.filename)).toEqual(["Holiday.JPG"]);
+      expect((await storage.listImages(listQuery({ format: "PNG" }))).images.map(image => image.filename)).toEqual(["diagram.png"]);
+      expect((await storage.listImages(listQuery({ filename: "holi" }))).images.map(image => image.filename)).toEqual(["Holiday.JPG"]);
+    });
+  });
+
+  describe("watermark profiles", () => {
+    const profile = {
+      id: "lobby",
+      kind: "image",
+      text: null,
+      position: "bottom-right",
+      opacity: 0.5,
+      scale: 0.2,
+      applyAt: "serve",
+    };
+
+    it("saves, lists and deletes profiles, keeping the logo when none is sent", async () => {
+      const saved = await storage.saveWatermarkProfile(profile, Buffer.from("logo"));
+      expect(saved).toMatchObject({ id: "lobby", opacity: 0.5 });
+
+      const updated = await storage.saveWatermarkProfile({ ...profile, opacity: 0.8 });
+      expect(updated.opacity).toBe(0.8);
+      expect((await storage.getWatermarkLogo(updated))?.toString()).toBe("logo");
+      expect((await storage.listWatermarkProfiles()).map(entry => entry.id)).toEqual(["lobby"]);
+
+      expect(await storage.deleteWatermarkProfile("lobby")).toBe(true);
+      expect(await storage.getWatermarkProfile("lobby")).toBeUndefined();
+      expect(await storage.deleteWatermarkProfile("lobby")).toBe(false);
+    });
+  });
+
+  describe("jobs", () => {
+    it("creates, updates and lists unfinished jobs oldest first", async () => {
+      const image = await storage.storeImage(newImage(), Buffer.from("a"));
+      const first = await storage.createJob({ type: "process_image", imageId: image.id, maxAttempts: 3 });
+      const second = await storage.createJob({ type: "process_image", imageId: image.id, maxAttempts: 3 });
+      expect(first).toMatchObject({ status: "queued", progress: 0, attempts: 0 });
+
+      const running = await storage.updateJob(first.id, { status: "running", attempts: 1, step: "analysis" });
+      expect(running).toMatchObject({ status: "running", attempts: 1, step: "analysis" });
+      expect((await storage.getJob(first.id))?.step).toBe("analysis");
+
+      await storage.updateJob(second.id, { status: "completed", completedAt: new Date() });
+      expect((await storage.listUnfinishedJobs()).map(job => job.id)).toEqual([first.id]);
+    });
+
+    it("drops the jobs of a deleted image", async () => {
+      const image = await storage.storeImage(newImage(), Buffer.from("a"));
+      const job = await storage.createJob({ type: "process_image", imageId: image.id, maxAttempts: 3 });
+
+      await storage.deleteImage(image.id);
+      expect(await storage.getJob(job.id)).toBeUndefined();
+      expect(await storage.updateJob(job.id, { progress: 50 })).toBeUndefined();
+    });
+  });
+});
+
+describe("DrizzleStorage (PGlite) timestamps", () => {
+  it("keeps uploadedAt to the millisecond, as the history cursor does", async () => {
+    const storage = await createPgliteStorage();
+    const db = await pgliteDatabase();
+    for (let i = 0; i < 4; i++) {
+      // Same instant up to the microseconds, as rows written by defaultNow() in one transaction can be
+      await db.execute(sql`INSERT INTO images (id, type, filename, data, uploaded_at)
+        VALUES (${`row-${i}`}, 'upload', 'a.png', 'key', ${`2026-01-01 00:00:00.12345${i}`})`);
+    }
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await storage.listImages(listQuery({ limit: 1, cursor }));
+      seen.push(...page.images.map(image => image.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen.sort()).toEqual(["row-0", "row-1", "row-2", "row-3"]);
+    expect((await storage.getImage("row-0"))?.uploadedAt.toISOString()).toBe("2026-01-01T00:00:00.123Z");
+  });
+});
+
+describe("migrations", () => {
+  it("migrates a database created by db:push before migrations existed", async () => {
+    const db = drizzle(new PGlite(), { schema });
+    await db.execute(sql`CREATE TABLE "images" (
+      "id" varchar PRIMARY KEY NOT NULL,
+      "type" text NOT NULL,
+      "data" text NOT NULL,
+      "filename" text,
+      "format" text,
+      "width" integer,
+      "height" integer,
+      "size" integer,
+      "uploaded_at" timestamp DEFAULT now() NOT NULL
+    )`);
+    await db.execute(sql`INSERT INTO images (id, type, data) VALUES ('old', 'upload', 'key')`);
+
+    await migrate(db, { migrationsFolder });
+    const storage = new DrizzleStorage(db as unknown as Database, new MemBlobStore());
+    expect(await storage.getImage("old")).toMatchObject({ type: "upload", pinned: false });
+  });
+});
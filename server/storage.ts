@@ -1,19 +1,149 @@
-import { type Image, type InsertImage } from "@shared/schema";
-import { randomUUID } from "crypto";
+import {
+  type Image,
+  type InsertImage,
+  type ImageUpload,
+  type InsertImageUpload,
+  type ImageListQuery,
+  type ImageDerivative,
+  type WatermarkProfile,
+  type NewWatermarkProfile,
+  type Job,
+  type NewJob,
+  type JobUpdate,
+  encodeImageCursor,
+  watermarkProfiles,
+  jobs,
+  images,
+  imageUploads,
+  displayState,
+  displayHistory,
+} from "@shared/schema";
+import { createHash, randomUUID } from "crypto";
+import { and, asc, desc, eq, gt, gte, ilike, inArray, isNotNull, like, lt, lte, notInArray, or, sql, type SQL } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { createBlobStore, type BlobStore } from "./blob-store";
+import type { RenderedDerivative } from "./derivatives";
+import { rankBySimilarity, type SimilarImage } from "./perceptual-hash";
+
+// Image fields supplied by callers; `data` is assigned the blob key by the storage
+export type NewImage = Omit<InsertImage, "data">;
+
+// Computed after upload by the processing job
+export type ImageAnalysisUpdate = Partial<Pick<Image, "dominantColor" | "palette" | "blurhash" | "phash">>;
+// Serve-time watermark of an image; ingest watermarks are part of its bytes and never change
+export type ImageWatermarkUpdate = Pick<Image, "watermark" | "watermarkAt">;
+
+export interface ImagePage {
+  images: Image[];
+  nextCursor: string | null;
+}
 
 export interface IStorage {
   getCurrentImage(): Promise<Image | undefined>;
-  storeImage(image: InsertImage): Promise<Image>;
+  storeImage(image: NewImage, bytes: Buffer): Promise<Image>;
+  recordUpload(imageId: string, upload: InsertImageUpload, promote: boolean): Promise<ImageUpload>;
   getImage(id: string): Promise<Image | undefined>;
+  getImageByHash(hash: string): Promise<Image | undefined>;
+  // Images whose perceptual hash is within `threshold` bits of `phash`, closest first
+  findSimilarImages(phash: string, threshold: number, excludeId?: string): Promise<SimilarImage<Image>[]>;
+  getImageData(id: string): Promise<Buffer | undefined>;
+  addDerivatives(imageId: string, derivatives: RenderedDerivative[]): Promise<Image | undefined>;
+  updateImageAnalysis(imageId: string, analysis: ImageAnalysisUpdate): Promise<Image | undefined>;
+  getDerivativeData(imageId: string, name: string): Promise<{ derivative: ImageDerivative; bytes: Buffer } | undefined>;
   getAllImages(): Promise<Image[]>;
+  listImages(query: ImageListQuery): Promise<ImagePage>;
+  setPinned(id: string, pinned: boolean): Promise<Image | undefined>;
+  setWatermark(id: string, watermark: ImageWatermarkUpdate): Promise<Image | undefined>;
+  deleteImage(id: string): Promise<boolean>;
+  clearCurrentImage(): Promise<Image | undefined>;
+  setCurrentImage(id: string): Promise<Image | undefined>;
+  // Goes back to the previously displayed image: null when that was a cleared display,
+  // undefined when there is nothing to go back to
+  revertCurrentImage(): Promise<Image | null | undefined>;
+  listWatermarkProfiles(): Promise<WatermarkProfile[]>;
+  getWatermarkProfile(id: string): Promise<WatermarkProfile | undefined>;
+  // Creates or replaces a profile; without `logo` an existing logo is kept
+  saveWatermarkProfile(profile: NewWatermarkProfile, logo?: Buffer): Promise<WatermarkProfile>;
+  getWatermarkLogo(profile: WatermarkProfile): Promise<Buffer | undefined>;
+  deleteWatermarkProfile(id: string): Promise<boolean>;
+  createJob(job: NewJob): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  // Undefined when the job no longer exists, e.g. because its image was deleted
+  updateJob(id: string, update: JobUpdate): Promise<Job | undefined>;
+  // Queued and running jobs, oldest first
+  listUnfinishedJobs(): Promise<Job[]>;
 }
 
+// Display history entries kept for undo
+const DISPLAY_HISTORY_LIMIT = 50;
+
+// Numeric sort key of an image; null sizes sort as 0 in both implementations
+const sortValue = (image: Image, sort: ImageListQuery["sort"]) =>
+  sort === "size" ? image.size ?? 0 : image.uploadedAt.getTime();
+
+// Callers fetch one row past the limit to learn whether another page exists
+const toPage = (rows: Image[], query: ImageListQuery): ImagePage => {
+  const page = rows.slice(0, query.limit);
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > query.limit && last
+    ? encodeImageCursor({ value: sortValue(last, query.sort), id: last.id })
+    : null;
+  return { images: page, nextCursor };
+};
+
+// Blob key of a derivative; derivatives belong to a single image row
+const derivativeKey = (imageId: string, name: string) => `${imageId}.${name}`;
+
+// Blob key of a watermark logo
+const watermarkLogoKey = (profileId: string) => `watermark.${profileId}`;
+
+// Writes derivative bytes and returns the image's derivative list with them replacing same-named ones
+const storeDerivativeBlobs = async (
+  blobs: BlobStore,
+  image: Image,
+  rendered: RenderedDerivative[],
+): Promise<ImageDerivative[]> => {
+  const added = await Promise.all(rendered.map(async ({ derivative, bytes }) => {
+    const data = derivativeKey(image.id, derivative.name);
+    await blobs.put(data, bytes);
+    return { ...derivative, data };
+  }));
+  const names = new Set(added.map(derivative => derivative.name));
+  return [...image.derivatives.filter(derivative => !names.has(derivative.name)), ...added];
+};
+
+const readDerivative = async (blobs: BlobStore, image: Image | undefined, name: string) => {
+  const derivative = image?.derivatives.find(candidate => candidate.name === name);
+  if (!derivative) return undefined;
+  const bytes = await blobs.get(derivative.data);
+  return bytes && { derivative, bytes };
+};
+
+// Blob key for new images: content-addressed when the hash is known
+const blobKey = (id: string, image: NewImage) => image.hash ?? id;
+
 export class MemStorage implements IStorage {
   private images: Map<string, Image>;
+  private uploads: ImageUpload[];
   private currentImageId: string | undefined;
+  private displayHistory: Array<string | null>;
+  private watermarks: Map<string, WatermarkProfile>;
+  private jobs: Map<string, Job>;
 
-  constructor() {
+  constructor(private blobs: BlobStore) {
     this.images = new Map();
+    this.uploads = [];
+    this.displayHistory = [];
+    this.watermarks = new Map();
+    this.jobs = new Map();
+  }
+
+  private setCurrent(id: string | null) {
+    this.currentImageId = id ?? undefined;
+    this.displayHistory.push(id);
+    if (this.displayHistory.length > DISPLAY_HISTORY_LIMIT) {
+      this.displayHistory.shift();
+    }
   }
 
   async getCurrentImage(): Promise<Image | undefined> {
@@ -21,33 +151,628 @@ export class MemStorage implements IStorage {
     return this.images.get(this.currentImageId);
   }
 
-  async storeImage(insertImage: InsertImage): Promise<Image> {
+  async storeImage(insertImage: NewImage, bytes: Buffer): Promise<Image> {
     const id = randomUUID();
+    const key = blobKey(id, insertImage);
+    await this.blobs.put(key, bytes);
     const image: Image = { 
       id,
       type: insertImage.type,
-      data: insertImage.data,
+      data: key,
       filename: insertImage.filename ?? null,
       format: insertImage.format ?? null,
       width: insertImage.width ?? null,
       height: insertImage.height ?? null,
       size: insertImage.size ?? null,
+      hash: insertImage.hash ?? null,
+      pinned: insertImage.pinned ?? false,
+      derivatives: [],
+      exif: insertImage.exif ?? null,
+      frameCount: insertImage.frameCount ?? null,
+      loopCount: insertImage.loopCount ?? null,
+      frameDelays: insertImage.frameDelays ?? null,
+      duration: insertImage.duration ?? null,
+      dominantColor: insertImage.dominantColor ?? null,
+      palette: insertImage.palette ?? null,
+      blurhash: insertImage.blurhash ?? null,
+      phash: insertImage.phash ?? null,
+      nearDuplicateOf: insertImage.nearDuplicateOf ?? null,
+      watermark: insertImage.watermark ?? null,
+      watermarkAt: insertImage.watermarkAt ?? null,
+      iccProfile: insertImage.iccProfile ?? null,
+      colorSpace: insertImage.colorSpace ?? null,
+      bitDepth: insertImage.bitDepth ?? null,
       uploadedAt: new Date(),
     };
     this.images.set(id, image);
-    this.currentImageId = id; // Set as current image
+    this.uploads.push(this.createUpload(id, insertImage, false, image.uploadedAt));
+    this.setCurrent(id); // Set as current image
     return image;
   }
 
+  async recordUpload(imageId: string, upload: InsertImageUpload, promote: boolean): Promise<ImageUpload> {
+    if (!this.images.has(imageId)) {
+      throw new Error(`Image ${imageId} not found`);
+    }
+    const record = this.createUpload(imageId, upload, true, new Date());
+    this.uploads.push(record);
+    if (promote) {
+      this.setCurrent(imageId);
+    }
+    return record;
+  }
+
+  private createUpload(imageId: string, upload: InsertImageUpload, duplicate: boolean, uploadedAt: Date): ImageUpload {
+    return {
+      id: randomUUID(),
+      imageId,
+      type: upload.type,
+      filename: upload.filename ?? null,
+      duplicate,
+      uploadedAt,
+    };
+  }
+
   async getImage(id: string): Promise<Image | undefined> {
     return this.images.get(id);
   }
 
+  async getImageByHash(hash: string): Promise<Image | undefined> {
+    return Array.from(this.images.values()).find(image => image.hash === hash);
+  }
+
+  async findSimilarImages(phash: string, threshold: number, excludeId?: string): Promise<SimilarImage<Image>[]> {
+    return rankBySimilarity(Array.from(this.images.values()), phash, threshold, excludeId);
+  }
+
+  async getImageData(id: string): Promise<Buffer | undefined> {
+    const image = this.images.get(id);
+    if (!image) return undefined;
+    return this.blobs.get(image.data);
+  }
+
+  async addDerivatives(imageId: string, derivatives: RenderedDerivative[]): Promise<Image | undefined> {
+    const image = this.images.get(imageId);
+    if (!image) return undefined;
+    const updated = { ...image, derivatives: await storeDerivativeBlobs(this.blobs, image, derivatives) };
+    this.images.set(imageId, updated);
+    return updated;
+  }
+
+  async updateImageAnalysis(imageId: string, analysis: ImageAnalysisUpdate): Promise<Image | undefined> {
+    const image = this.images.get(imageId);
+    if (!image) return undefined;
+    const updated = { ...image, ...analysis };
+    this.images.set(imageId, updated);
+    return updated;
+  }
+
+  async getDerivativeData(imageId: string, name: string) {
+    return readDerivative(this.blobs, this.images.get(imageId), name);
+  }
+
   async getAllImages(): Promise<Image[]> {
     return Array.from(this.images.values()).sort(
       (a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime()
     );
   }
+
+  async listImages(query: ImageListQuery): Promise<ImagePage> {
+    const direction = query.order === "asc" ? 1 : -1;
+    const compare = (a: { value: number; id: string }, b: { value: number; id: string }) =>
+      (a.value - b.value || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)) * direction;
+    const key = (image: Image) => ({ value: sortValue(image, query.sort), id: image.id });
+    const filename = query.filename?.toLowerCase();
+
+    const rows = Array.from(this.images.values())
+      .filter(image =>
+        (!query.type || image.type === query.type) &&
+        (!query.format || image.format?.toLowerCase() === query.format) &&
+        (!filename || !!image.filename?.toLowerCase().includes(filename)) &&
+        (!query.from || image.uploadedAt >= query.from) &&
+        (!query.to || image.uploadedAt <= query.to) &&
+        (!query.cursor || compare(key(image), query.cursor) > 0)
+      )
+      .sort((a, b) => compare(key(a), key(b)));
+
+    return toPage(rows.slice(0, query.limit + 1), query);
+  }
+
+  async setPinned(id: string, pinned: boolean): Promise<Image | undefined> {
+    const image = this.images.get(id);
+    if (!image) return undefined;
+    const updated = { ...image, pinned };
+    this.images.set(id, updated);
+    return updated;
+  }
+
+  async setWatermark(id: string, watermark: ImageWatermarkUpdate): Promise<Image | undefined> {
+    const image = this.images.get(id);
+    if (!image) return undefined;
+    const updated = { ...image, ...watermark };
+    this.images.set(id, updated);
+    return updated;
+  }
+
+  async deleteImage(id: string): Promise<boolean> {
+    const image = this.images.get(id);
+    if (!image) return false;
+
+    this.images.delete(id);
+    this.uploads = this.uploads.filter(upload => upload.imageId !== id);
+    this.displayHistory = this.displayHistory.filter(entry => entry !== id);
+    if (this.currentImageId === id) {
+      this.currentImageId = undefined;
+    }
+    Array.from(this.images.values())
+      .filter(other => other.nearDuplicateOf === id)
+      .forEach(other => this.images.set(other.id, { ...other, nearDuplicateOf: null }));
+    Array.from(this.jobs.values())
+      .filter(job => job.imageId === id)
+      .forEach(job => this.jobs.delete(job.id));
+
+    const shared = Array.from(this.images.values()).some(other => other.data === image.data);
+    await this.deleteBlobs(image, shared);
+    return true;
+  }
+
+  private async deleteBlobs(image: Image, shared: boolean) {
+    await Promise.all(image.derivatives.map(derivative => this.blobs.delete(derivative.data)));
+    if (!shared) {
+      await this.blobs.delete(image.data);
+    }
+  }
+
+  async clearCurrentImage(): Promise<Image | undefined> {
+    const current = await this.getCurrentImage();
+    if (current) {
+      this.setCurrent(null);
+    }
+    return current;
+  }
+
+  async setCurrentImage(id: string): Promise<Image | undefined> {
+    const image = this.images.get(id);
+    if (image) {
+      this.setCurrent(id);
+    }
+    return image;
+  }
+
+  async revertCurrentImage(): Promise<Image | null | undefined> {
+    const current = this.currentImageId ?? null;
+
+    // Skip the entries for what is on screen now
+    let index = this.displayHistory.length - 1;
+    while (index >= 0 && this.displayHistory[index] === current) {
+      index--;
+    }
+    if (index < 0) return undefined;
+
+    const target = this.displayHistory[index];
+    this.displayHistory = this.displayHistory.slice(0, index + 1);
+    this.currentImageId = target ?? undefined;
+    return target ? this.images.get(target) ?? null : null;
+  }
+
+  async listWatermarkProfiles(): Promise<WatermarkProfile[]> {
+    return Array.from(this.watermarks.values()).sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async getWatermarkProfile(id: string): Promise<WatermarkProfile | undefined> {
+    return this.watermarks.get(id);
+  }
+
+  async saveWatermarkProfile(profile: NewWatermarkProfile, logo?: Buffer): Promise<WatermarkProfile> {
+    const existing = this.watermarks.get(profile.id);
+    if (logo) {
+      await this.blobs.put(watermarkLogoKey(profile.id), logo);
+    }
+    const saved: WatermarkProfile = {
+      ...profile,
+      logo: logo ? watermarkLogoKey(profile.id) : existing?.logo ?? null,
+      updatedAt: new Date(),
+    };
+    this.watermarks.set(profile.id, saved);
+    return saved;
+  }
+
+  async getWatermarkLogo(profile: WatermarkProfile): Promise<Buffer | undefined> {
+    return profile.logo ? this.blobs.get(profile.logo) : undefined;
+  }
+
+  async deleteWatermarkProfile(id: string): Promise<boolean> {
+    const profile = this.watermarks.get(id);
+    if (!profile) return false;
+    this.watermarks.delete(id);
+    if (profile.logo) {
+      await this.blobs.delete(profile.logo);
+    }
+    return true;
+  }
+
+  async createJob(newJob: NewJob): Promise<Job> {
+    const now = new Date();
+    const job: Job = {
+      ...newJob,
+      id: randomUUID(),
+      status: "queued",
+      progress: 0,
+      step: null,
+      attempts: 0,
+      error: null,
+      runAt: now,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async updateJob(id: string, update: JobUpdate): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    const updated = { ...job, ...update, updatedAt: new Date() };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async listUnfinishedJobs(): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.status === "queued" || job.status === "running")
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+}
+
+// Row id of the single display_state record
+const DEFAULT_DISPLAY = "default";
+
+// Matches the data URIs older releases stored directly in images.data
+const DATA_URI_PATTERN = /^data:[^;,]*;base64,/;
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database, private blobs: BlobStore) {}
+
+  async getCurrentImage(): Promise<Image | undefined> {
+    const [row] = await this.db
+      .select({ image: images })
+      .from(displayState)
+      .innerJoin(images, eq(displayState.currentImageId, images.id))
+      .where(eq(displayState.id, DEFAULT_DISPLAY));
+    return row?.image;
+  }
+
+  async storeImage(insertImage: NewImage, bytes: Buffer): Promise<Image> {
+    const id = randomUUID();
+    const key = blobKey(id, insertImage);
+    await this.blobs.put(key, bytes);
+
+    try {
+      return await this.insertCurrent({ ...insertImage, id, data: key });
+    } catch (error) {
+      // Content-addressed blobs may be shared with another row, so leave those in place
+      if (key === id) {
+        await this.blobs.delete(key);
+      }
+      throw error;
+    }
+  }
+
+  private async insertCurrent(values: typeof images.$inferInsert): Promise<Image> {
+    return this.db.transaction(async (tx) => {
+      const [image] = await tx.insert(images).values(values).returning();
+      await tx.insert(imageUploads).values({
+        id: randomUUID(),
+        imageId: image.id,
+        type: image.type,
+        filename: image.filename,
+        duplicate: false,
+        uploadedAt: image.uploadedAt,
+      });
+      await this.setCurrent(tx, image.id);
+      return image;
+    });
+  }
+
+  async recordUpload(imageId: string, upload: InsertImageUpload, promote: boolean): Promise<ImageUpload> {
+    return this.db.transaction(async (tx) => {
+      const [record] = await tx
+        .insert(imageUploads)
+        .values({ ...upload, id: randomUUID(), imageId, duplicate: true })
+        .returning();
+      if (promote) {
+        await this.setCurrent(tx, imageId);
+      }
+      return record;
+    });
+  }
+
+  private async setCurrent(db: Database, imageId: string | null, record = true): Promise<void> {
+    await db
+      .insert(displayState)
+      .values({ id: DEFAULT_DISPLAY, currentImageId: imageId })
+      .onConflictDoUpdate({
+        target: displayState.id,
+        set: { currentImageId: imageId, updatedAt: new Date() },
+      });
+    if (!record) return;
+
+    await db.insert(displayHistory).values({ imageId });
+    const kept = db
+      .select({ id: displayHistory.id })
+      .from(displayHistory)
+      .orderBy(desc(displayHistory.id))
+      .limit(DISPLAY_HISTORY_LIMIT);
+    await db.delete(displayHistory).where(notInArray(displayHistory.id, kept));
+  }
+
+  async getImage(id: string): Promise<Image | undefined> {
+    const [image] = await this.db.select().from(images).where(eq(images.id, id));
+    return image;
+  }
+
+  async getImageByHash(hash: string): Promise<Image | undefined> {
+    const [image] = await this.db
+      .select()
+      .from(images)
+      .where(eq(images.hash, hash))
+      .orderBy(images.uploadedAt)
+      .limit(1);
+    return image;
+  }
+
+  // Hamming distance is computed here rather than in SQL; only ids and hashes are scanned
+  async findSimilarImages(phash: string, threshold: number, excludeId?: string): Promise<SimilarImage<Image>[]> {
+    const candidates = await this.db
+      .select({ id: images.id, phash: images.phash })
+      .from(images)
+      .where(isNotNull(images.phash))
+      .orderBy(desc(images.uploadedAt));
+    const matches = rankBySimilarity(candidates, phash, threshold, excludeId);
+    if (matches.length === 0) return [];
+
+    const rows = await this.db.select().from(images).where(inArray(images.id, matches.map(match => match.image.id)));
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return matches
+      .filter(match => byId.has(match.image.id))
+      .map(match => ({ image: byId.get(match.image.id)!, distance: match.distance }));
+  }
+
+  async getImageData(id: string): Promise<Buffer | undefined> {
+    const image = await this.getImage(id);
+    if (!image) return undefined;
+    return this.blobs.get(image.data);
+  }
+
+  async addDerivatives(imageId: string, derivatives: RenderedDerivative[]): Promise<Image | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [image] = await tx.select().from(images).where(eq(images.id, imageId)).for("update");
+      if (!image) return undefined;
+
+      const merged = await storeDerivativeBlobs(this.blobs, image, derivatives);
+      const [updated] = await tx.update(images).set({ derivatives: merged }).where(eq(images.id, imageId)).returning();
+      return updated;
+    });
+  }
+
+  async updateImageAnalysis(imageId: string, analysis: ImageAnalysisUpdate): Promise<Image | undefined> {
+    const [image] = await this.db.update(images).set(analysis).where(eq(images.id, imageId)).returning();
+    return image;
+  }
+
+  async getDerivativeData(imageId: string, name: string) {
+    return readDerivative(this.blobs, await this.getImage(imageId), name);
+  }
+
+  async getAllImages(): Promise<Image[]> {
+    return this.db.select().from(images).orderBy(desc(images.uploadedAt));
+  }
+
+  async listImages(query: ImageListQuery): Promise<ImagePage> {
+    const sizeKey = sql<number>`coalesce(${images.size}, 0)`;
+    const conditions: Array<SQL | undefined> = [];
+
+    if (query.type) conditions.push(eq(images.type, query.type));
+    if (query.format) conditions.push(eq(sql`lower(${images.format})`, query.format));
+    if (query.filename) conditions.push(ilike(images.filename, `%${query.filename.replace(/[\\%_]/g, "\\$&")}%`));
+    if (query.from) conditions.push(gte(images.uploadedAt, query.from));
+    if (query.to) conditions.push(lte(images.uploadedAt, query.to));
+
+    const after = query.order === "asc" ? gt : lt;
+    if (query.cursor) {
+      const { value, id } = query.cursor;
+      conditions.push(query.sort === "size"
+        ? or(after(sizeKey, value), and(eq(sizeKey, value), after(images.id, id)))
+        : or(
+            after(images.uploadedAt, new Date(value)),
+            and(eq(images.uploadedAt, new Date(value)), after(images.id, id)),
+          ));
+    }
+
+    const direction = query.order === "asc" ? asc : desc;
+    const rows = await this.db
+      .select()
+      .from(images)
+      .where(and(...conditions))
+      .orderBy(direction(query.sort === "size" ? sizeKey : images.uploadedAt), direction(images.id))
+      .limit(query.limit + 1);
+    return toPage(rows, query);
+  }
+
+  async setPinned(id: string, pinned: boolean): Promise<Image | undefined> {
+    const [image] = await this.db.update(images).set({ pinned }).where(eq(images.id, id)).returning();
+    return image;
+  }
+
+  async setWatermark(id: string, watermark: ImageWatermarkUpdate): Promise<Image | undefined> {
+    const [image] = await this.db.update(images).set(watermark).where(eq(images.id, id)).returning();
+    return image;
+  }
+
+  // Uploads cascade and the display pointer is nulled by the foreign keys
+  async deleteImage(id: string): Promise<boolean> {
+    const [image] = await this.db.delete(images).where(eq(images.id, id)).returning();
+    if (!image) return false;
+
+    const [shared] = await this.db
+      .select({ id: images.id })
+      .from(images)
+      .where(eq(images.data, image.data))
+      .limit(1);
+    await this.deleteBlobs(image, !!shared);
+    return true;
+  }
+
+  private async deleteBlobs(image: Image, shared: boolean) {
+    await Promise.all(image.derivatives.map(derivative => this.blobs.delete(derivative.data)));
+    if (!shared) {
+      await this.blobs.delete(image.data);
+    }
+  }
+
+  async clearCurrentImage(): Promise<Image | undefined> {
+    const current = await this.getCurrentImage();
+    if (!current) return undefined;
+
+    await this.db.transaction(tx => this.setCurrent(tx, null));
+    return current;
+  }
+
+  async setCurrentImage(id: string): Promise<Image | undefined> {
+    const image = await this.getImage(id);
+    if (!image) return undefined;
+
+    await this.db.transaction(tx => this.setCurrent(tx, id));
+    return image;
+  }
+
+  async revertCurrentImage(): Promise<Image | null | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [state] = await tx.select().from(displayState).where(eq(displayState.id, DEFAULT_DISPLAY));
+      const current = state?.currentImageId ?? null;
+      const history = await tx
+        .select()
+        .from(displayHistory)
+        .orderBy(desc(displayHistory.id))
+        .limit(DISPLAY_HISTORY_LIMIT);
+
+      // Skip the entries for what is on screen now
+      const target = history.find(entry => entry.imageId !== current);
+      if (!target) return undefined;
+
+      await tx.delete(displayHistory).where(gt(displayHistory.id, target.id));
+      await this.setCurrent(tx, target.imageId, false);
+      if (!target.imageId) return null;
+
+      const [image] = await tx.select().from(images).where(eq(images.id, target.imageId));
+      return image ?? null;
+    });
+  }
+
+  async listWatermarkProfiles(): Promise<WatermarkProfile[]> {
+    return this.db.select().from(watermarkProfiles).orderBy(asc(watermarkProfiles.id));
+  }
+
+  async getWatermarkProfile(id: string): Promise<WatermarkProfile | undefined> {
+    const [profile] = await this.db.select().from(watermarkProfiles).where(eq(watermarkProfiles.id, id));
+    return profile;
+  }
+
+  async saveWatermarkProfile(profile: NewWatermarkProfile, logo?: Buffer): Promise<WatermarkProfile> {
+    if (logo) {
+      await this.blobs.put(watermarkLogoKey(profile.id), logo);
+    }
+    const values = { ...profile, updatedAt: new Date(), ...(logo ? { logo: watermarkLogoKey(profile.id) } : {}) };
+    const [saved] = await this.db
+      .insert(watermarkProfiles)
+      .values(values)
+      .onConflictDoUpdate({ target: watermarkProfiles.id, set: values })
+      .returning();
+    return saved;
+  }
+
+  async getWatermarkLogo(profile: WatermarkProfile): Promise<Buffer | undefined> {
+    return profile.logo ? this.blobs.get(profile.logo) : undefined;
+  }
+
+  async deleteWatermarkProfile(id: string): Promise<boolean> {
+    const [profile] = await this.db.delete(watermarkProfiles).where(eq(watermarkProfiles.id, id)).returning();
+    if (!profile) return false;
+    if (profile.logo) {
+      await this.blobs.delete(profile.logo);
+    }
+    return true;
+  }
+
+  async createJob(job: NewJob): Promise<Job> {
+    const [created] = await this.db
+      .insert(jobs)
+      .values({ ...job, id: randomUUID(), status: "queued" })
+      .returning();
+    return created;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async updateJob(id: string, update: JobUpdate): Promise<Job | undefined> {
+    const [job] = await this.db
+      .update(jobs)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async listUnfinishedJobs(): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(inArray(jobs.status, ["queued", "running"]))
+      .orderBy(asc(jobs.createdAt));
+  }
+
+  // Moves base64 data URIs left by older releases into the blob store; returns the number migrated
+  async migrateDataUris(): Promise<number> {
+    const legacy = await this.db
+      .select({ id: images.id, data: images.data })
+      .from(images)
+      .where(like(images.data, "data:%"));
+
+    let migrated = 0;
+    for (const row of legacy) {
+      const match = row.data.match(DATA_URI_PATTERN);
+      if (!match) continue;
+
+      const bytes = Buffer.from(row.data.slice(match[0].length), "base64");
+      await this.blobs.put(row.id, bytes);
+      const hash = createHash("sha256").update(bytes).digest("hex");
+      await this.db.update(images).set({ data: row.id, hash }).where(eq(images.id, row.id));
+      migrated++;
+    }
+    return migrated;
+  }
+}
+
+// STORAGE_DRIVER selects the backend; defaults to the database whenever one is provisioned
+export function createStorage(driver = process.env.STORAGE_DRIVER): IStorage {
+  const resolved = driver || (process.env.DATABASE_URL ? "database" : "memory");
+
+  switch (resolved) {
+    case "memory":
+      return new MemStorage(createBlobStore("memory"));
+    case "database":
+      return new DrizzleStorage(createDb(), createBlobStore("fs"));
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${resolved}". Expected "memory" or "database".`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
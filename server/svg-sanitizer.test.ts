@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { sanitizeSvgDocument } from "./svg-sanitizer";
+
+const svg = (body: string, attributes = "") =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"${attributes}>${body}</svg>`;
+
+describe("sanitizeSvgDocument", () => {
+  it("keeps ordinary drawing markup", () => {
+    const input = svg(
+      '<defs><linearGradient id="g"><stop offset="0" stop-color="#f00"/></linearGradient></defs>' +
+      '<rect width="10" height="10" fill="url(#g)" style="stroke: #000"/><text x="1" y="9">a &amp; b</text>',
+    );
+    expect(sanitizeSvgDocument(input)).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">' +
+      '<defs><linearGradient id="g"><stop offset="0" stop-color="#f00"></stop></linearGradient></defs>' +
+      '<rect width="10" height="10" fill="url(#g)" style="stroke: #000"></rect><text x="1" y="9">a &amp; b</text></svg>',
+    );
+  });
+
+  it("drops scripts, event handlers and foreign content", () => {
+    const output = sanitizeSvgDocument(svg(
+      '<script>alert(1)</script><foreignObject><div>html</div></foreignObject><rect onclick="alert(2)"/>',
+      ' onload="alert(3)"',
+    ));
+    expect(output).toBe('<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><rect></rect></svg>');
+  });
+
+  it("drops animation elements, which could rewrite attributes after sanitizing", () => {
+    const output = sanitizeSvgDocument(svg(
+      '<a href="#x"><animate attributeName="href" values="&#106;avascript:alert(1)"/><set attributeName="href" to="javascript:alert(2)"/>x</a>',
+    ));
+    expect(output).not.toMatch(/animate|set|javascript/i);
+  });
+
+  it("checks references after decoding entities", () => {
+    const output = sanitizeSvgDocument(svg(
+      '<a href="&#106;avascript:alert(1)"><use xlink:href="http://evil.example/x.svg#a"/><use href="#a"/></a>' +
+      '<rect style="fill: u&#114;l(http://evil.example/)"/><rect fill="url(\\68ttp://evil.example/)"/>',
+    ));
+    expect(output).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"><a><use></use><use href="#a"></use></a><rect></rect><rect></rect></svg>',
+    );
+  });
+
+  it("keeps embedded rasters but no other image sources", () => {
+    const output = sanitizeSvgDocument(svg(
+      '<image href="data:image/png;base64,iVBORw0K"/><image href="data:image/svg+xml;base64,PHN2Zz4="/><image href="https://evil.example/a.png"/>',
+    ));
+    expect(output).toContain('<image href="data:image/png;base64,iVBORw0K"></image><image></image><image></image>');
+  });
+
+  it("drops stylesheets that import or fetch anything", () => {
+    expect(sanitizeSvgDocument(svg("<style>rect { fill: red }</style>"))).toContain("<style>rect { fill: red }</style>");
+    expect(sanitizeSvgDocument(svg('<style>@import "https://evil.example/a.css";</style>'))).toContain("<style></style>");
+    expect(sanitizeSvgDocument(svg("<style><![CDATA[rect { fill: url(https://evil.example/) }]]></style>"))).toContain("<style></style>");
+  });
+
+  it("drops processing instructions and comments, and adds the SVG namespace", () => {
+    const output = sanitizeSvgDocument('<?xml-stylesheet href="https://evil.example/a.css"?><!-- note --><svg><rect/></svg>');
+    expect(output).toBe('<svg xmlns="http://www.w3.org/2000/svg"><rect></rect></svg>');
+  });
+
+  it("returns undefined without an <svg> root", () => {
+    expect(sanitizeSvgDocument("<html><svg></svg></html>")).toBeUndefined();
+    expect(sanitizeSvgDocument("not markup")).toBeUndefined();
+  });
+});
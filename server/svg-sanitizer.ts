@@ -0,0 +1,110 @@
+import { Parser } from "htmlparser2";
+
+// Elements kept in sanitized SVG. Anything else is dropped with its content: script, foreignObject,
+// animation elements (<animate>/<set> can rewrite attributes such as href after sanitizing),
+// editor namespaces and unknown elements.
+const ELEMENTS = new Set([
+  "svg", "g", "defs", "symbol", "use", "switch", "view", "a", "title", "desc", "style",
+  "path", "rect", "circle", "ellipse", "line", "polyline", "polygon", "image",
+  "text", "tspan", "textPath",
+  "linearGradient", "radialGradient", "stop", "pattern", "clipPath", "mask", "marker",
+  "filter", "feBlend", "feColorMatrix", "feComponentTransfer", "feComposite", "feConvolveMatrix",
+  "feDiffuseLighting", "feDisplacementMap", "feDistantLight", "feDropShadow", "feFlood", "feFuncA",
+  "feFuncB", "feFuncG", "feFuncR", "feGaussianBlur", "feMerge", "feMergeNode", "feMorphology",
+  "feOffset", "fePointLight", "feSpecularLighting", "feSpotLight", "feTile", "feTurbulence",
+]);
+
+// Geometry, presentation and filter attributes; no event handlers, no attributes that load anything
+const ATTRIBUTES = new Set([
+  "xmlns", "xmlns:xlink", "xml:space", "version", "id", "class", "style", "transform", "viewBox", "preserveAspectRatio",
+  "x", "y", "x1", "y1", "x2", "y2", "cx", "cy", "r", "rx", "ry", "fx", "fy", "fr", "width", "height", "d", "points", "pathLength",
+  "fill", "fill-opacity", "fill-rule", "stroke", "stroke-width", "stroke-opacity", "stroke-linecap", "stroke-linejoin",
+  "stroke-miterlimit", "stroke-dasharray", "stroke-dashoffset", "opacity", "color", "display", "visibility", "overflow",
+  "clip-path", "clip-rule", "mask", "filter", "marker-start", "marker-mid", "marker-end", "paint-order", "vector-effect",
+  "mix-blend-mode", "isolation", "shape-rendering", "text-rendering", "image-rendering", "color-interpolation",
+  "color-interpolation-filters", "font-family", "font-size", "font-weight", "font-style", "font-variant", "text-anchor",
+  "dominant-baseline", "alignment-baseline", "baseline-shift", "letter-spacing", "word-spacing", "text-decoration",
+  "dx", "dy", "rotate", "textLength", "lengthAdjust", "startOffset", "method", "spacing", "side",
+  "offset", "stop-color", "stop-opacity", "gradientUnits", "gradientTransform", "spreadMethod",
+  "patternUnits", "patternContentUnits", "patternTransform", "clipPathUnits", "maskUnits", "maskContentUnits",
+  "markerWidth", "markerHeight", "markerUnits", "refX", "refY", "orient",
+  "filterUnits", "primitiveUnits", "in", "in2", "result", "stdDeviation", "mode", "operator", "k1", "k2", "k3", "k4",
+  "values", "type", "tableValues", "slope", "intercept", "amplitude", "exponent", "order", "kernelMatrix", "divisor",
+  "bias", "targetX", "targetY", "edgeMode", "preserveAlpha", "surfaceScale", "diffuseConstant", "specularConstant",
+  "specularExponent", "kernelUnitLength", "azimuth", "elevation", "z", "pointsAtX", "pointsAtY", "pointsAtZ",
+  "limitingConeAngle", "scale", "xChannelSelector", "yChannelSelector", "radius", "flood-color", "flood-opacity",
+  "lighting-color", "baseFrequency", "numOctaves", "seed", "stitchTiles",
+  "href", "xlink:href",
+]);
+
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+
+// Embedded rasters are the only non-fragment reference allowed, and only on <image>
+const EMBEDDED_RASTER = /^data:image\/(png|jpeg|gif|webp);base64,[a-z0-9+/=\s]*$/i;
+
+// Attribute values and stylesheets are checked after entity decoding, so `&#106;avascript:` is
+// seen as `javascript:`. CSS escapes are refused outright rather than decoded.
+function isSafeCss(value: string): boolean {
+  const compact = value.replace(/[\s\0-\x1f]+/g, "").toLowerCase();
+  if (/\\|javascript:|expression\(|@import|behavior:|-moz-binding/.test(compact)) return false;
+  return (compact.match(/url\([^)]*\)?/g) ?? []).every(reference => /^url\(['"]?#/.test(reference));
+}
+
+function isSafeAttribute(element: string, name: string, value: string): boolean {
+  if (!ATTRIBUTES.has(name)) return false;
+  if (name === "href" || name === "xlink:href") {
+    const target = value.trim();
+    return target.startsWith("#") || (element === "image" && EMBEDDED_RASTER.test(target));
+  }
+  return isSafeCss(value);
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/[&<>"]/g, char => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[char]!);
+
+// Parses the document and writes it back with allowlisted elements and attributes only. Comments,
+// processing instructions (e.g. xml-stylesheet) and stylesheets that fail the CSS check are dropped.
+// Returns undefined when the document has no <svg> root.
+export function sanitizeSvgDocument(svg: string): string | undefined {
+  const output: string[] = [];
+  const open: string[] = []; // every element currently open in the input
+  let skippedAt: number | undefined; // depth of the dropped element whose subtree is being skipped
+  let hasRoot = false;
+
+  const parser = new Parser({
+    onopentag(name, attributes) {
+      open.push(name);
+      if (skippedAt !== undefined) return;
+      if (!ELEMENTS.has(name) || (open.length === 1) !== (name === "svg")) {
+        skippedAt = open.length;
+        return;
+      }
+
+      const kept = Object.entries(attributes).filter(([attribute, value]) => isSafeAttribute(name, attribute, value));
+      if (open.length === 1) {
+        hasRoot = true;
+        if (!kept.some(([attribute]) => attribute === "xmlns")) {
+          kept.unshift(["xmlns", SVG_NAMESPACE]);
+        }
+      }
+      output.push(`<${name}${kept.map(([attribute, value]) => ` ${attribute}="${escapeXml(value)}"`).join("")}>`);
+    },
+    ontext(text) {
+      if (skippedAt !== undefined || open.length === 0) return;
+      if (open[open.length - 1] === "style" && !isSafeCss(text)) return;
+      output.push(escapeXml(text));
+    },
+    onclosetag(name) {
+      if (skippedAt === undefined) {
+        output.push(`</${name}>`);
+      } else if (skippedAt === open.length) {
+        skippedAt = undefined;
+      }
+      open.pop();
+    },
+  }, { xmlMode: true, decodeEntities: true, recognizeCDATA: true });
+
+  parser.write(svg);
+  parser.end();
+  return hasRoot ? output.join("") : undefined;
+}
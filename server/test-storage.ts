@@ -0,0 +1,37 @@
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import { MemStorage, DrizzleStorage, type IStorage } from "./storage";
+import { MemBlobStore } from "./blob-store";
+import type { Database } from "./db";
+
+// Storage for the tests. DrizzleStorage runs against PGlite, an in-process Postgres, migrated with
+// the files in /migrations, so the migrations are tested along with the queries. Migrating is
+// slow, so one database is shared by the tests of a file and emptied for each new storage.
+export const migrationsFolder = path.resolve(import.meta.dirname, "../migrations");
+
+let pglite: Promise<Database> | undefined;
+
+export function pgliteDatabase(): Promise<Database> {
+  pglite ??= (async () => {
+    const db = drizzle(new PGlite(), { schema });
+    await migrate(db, { migrationsFolder });
+    return db as unknown as Database;
+  })();
+  return pglite;
+}
+
+export async function createPgliteStorage(): Promise<IStorage> {
+  const db = await pgliteDatabase();
+  await db.execute(sql`TRUNCATE images, image_uploads, display_state, display_history, watermark_profiles, jobs CASCADE`);
+  return new DrizzleStorage(db, new MemBlobStore());
+}
+
+// For describe.each: every test runs against both implementations of the IStorage contract
+export const storageImplementations: Array<[string, () => Promise<IStorage>]> = [
+  ["MemStorage", async () => new MemStorage(new MemBlobStore())],
+  ["DrizzleStorage (PGlite)", createPgliteStorage],
+];
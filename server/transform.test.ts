@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { imageTransformQuerySchema } from "@shared/schema";
+import { loadTransformLimits, validateTransform } from "./transform";
+
+describe("loadTransformLimits", () => {
+  it("keeps the defaults when the settings are not numbers", () => {
+    const limits = loadTransformLimits({ TRANSFORM_MAX_DIMENSION: "large", TRANSFORM_CACHE_MB: "lots" });
+    expect(limits).toMatchObject({ maxDimension: 4096, cacheBytes: 64 * 1024 * 1024 });
+  });
+
+  it("still enforces the size limit after an invalid setting", () => {
+    const limits = loadTransformLimits({ TRANSFORM_MAX_DIMENSION: "4096px" });
+    const query = imageTransformQuerySchema.parse({ w: "5000" });
+    expect(validateTransform(query, limits)).toMatchObject({ valid: false });
+  });
+
+  it("reads valid settings", () => {
+    const limits = loadTransformLimits({ TRANSFORM_MAX_DIMENSION: "2048", TRANSFORM_ALLOWED_WIDTHS: "320, 640" });
+    expect(limits).toMatchObject({ maxDimension: 2048, allowedWidths: [320, 640] });
+  });
+});
@@ -0,0 +1,161 @@
+import sharp from "sharp";
+import type { Image, ImageTransformQuery } from "@shared/schema";
+import { isSharpOutputFormat } from "./image-formats";
+import { positiveInt, positiveNumber } from "./config";
+
+export interface TransformLimits {
+  maxDimension: number; // largest output width/height after dpr scaling
+  allowedWidths?: number[]; // when set, `w` must be one of these
+  cacheBytes: number; // memory budget of the derivative cache
+}
+
+const positiveInts = (value: string | undefined) =>
+  value
+    ?.split(",")
+    .map(part => parseInt(part.trim(), 10))
+    .filter(width => Number.isInteger(width) && width > 0);
+
+// TRANSFORM_MAX_DIMENSION / TRANSFORM_ALLOWED_WIDTHS / TRANSFORM_CACHE_MB
+export function loadTransformLimits(env = process.env): TransformLimits {
+  const allowedWidths = positiveInts(env.TRANSFORM_ALLOWED_WIDTHS);
+  return {
+    maxDimension: positiveInt(env.TRANSFORM_MAX_DIMENSION, 4096),
+    allowedWidths: allowedWidths?.length ? allowedWidths : undefined,
+    cacheBytes: Math.round(positiveNumber(env.TRANSFORM_CACHE_MB, 64) * 1024 * 1024),
+  };
+}
+
+export interface Derivative {
+  data: Buffer;
+  format: string;
+}
+
+// True when the query asks for anything other than the original bytes
+export const wantsTransform = (query: ImageTransformQuery) =>
+  query.w !== undefined || query.h !== undefined || query.fmt !== undefined || query.q !== undefined;
+
+// Formats that can carry animation; the others would flatten a GIF or animated WebP
+const ANIMATED_FORMATS = new Set(["gif", "webp"]);
+
+// Parses an Accept header into media types the client explicitly accepts (q > 0)
+const acceptedTypes = (accept: string) =>
+  new Set(
+    accept
+      .split(",")
+      .map(part => part.trim().split(";"))
+      .filter(([, ...params]) => !params.some(param => /^\s*q\s*=\s*0(\.0*)?\s*$/.test(param)))
+      .map(([type]) => type.trim().toLowerCase()),
+  );
+
+// Best output format for a client: AVIF, then WebP, then undefined for the original.
+// Wildcards do not count, so `*/*` clients keep getting the uploaded format.
+export function negotiateFormat(accept: string | undefined, format: string | null): "avif" | "webp" | undefined {
+  if (!accept || !format || format === "svg") return undefined;
+
+  const accepted = acceptedTypes(accept);
+  const candidates = ANIMATED_FORMATS.has(format) ? (["webp"] as const) : (["avif", "webp"] as const);
+  const best = candidates.find(candidate => accepted.has(`image/${candidate}`));
+
+  // heif is how Sharp reports AVIF input
+  if (!best || best === format || (best === "avif" && format === "heif")) return undefined;
+  return best;
+}
+
+// Output box in pixels, with the device pixel ratio applied
+const targetSize = (query: ImageTransformQuery) => ({
+  width: query.w ? Math.round(query.w * query.dpr) : undefined,
+  height: query.h ? Math.round(query.h * query.dpr) : undefined,
+});
+
+export function validateTransform(query: ImageTransformQuery, limits: TransformLimits): { valid: boolean; error?: string } {
+  if (query.w !== undefined && limits.allowedWidths && !limits.allowedWidths.includes(query.w)) {
+    return { valid: false, error: `Width must be one of ${limits.allowedWidths.join(", ")}` };
+  }
+
+  const { width, height } = targetSize(query);
+  if ((width ?? 0) > limits.maxDimension || (height ?? 0) > limits.maxDimension) {
+    return { valid: false, error: `Requested size exceeds the ${limits.maxDimension}px limit` };
+  }
+
+  return { valid: true };
+}
+
+// Stable identifier of a derivative, used as cache key and ETag suffix
+export function variantKey(query: ImageTransformQuery): string {
+  const { width, height } = targetSize(query);
+  return [
+    `w${width ?? ""}`,
+    `h${height ?? ""}`,
+    query.fit,
+    query.fmt ?? "orig",
+    `q${query.q ?? ""}`,
+  ].join("_");
+}
+
+export async function renderDerivative(bytes: Buffer, format: string | null, query: ImageTransformQuery): Promise<Derivative> {
+  const { width, height } = targetSize(query);
+  const outputFormat = query.fmt ?? (isSharpOutputFormat(format) ? format : "png");
+
+  // Keep every frame only when the output format can animate
+  let pipeline = sharp(bytes, { animated: outputFormat === "gif" || outputFormat === "webp" });
+
+  if (width || height) {
+    pipeline = pipeline.resize({ width, height, fit: query.fit, withoutEnlargement: true });
+  }
+
+  // Wide-gamut, CMYK and 16-bit sources are converted so every browser shows the same colours
+  pipeline = pipeline.toColourspace("srgb").toFormat(outputFormat as keyof sharp.FormatEnum, { quality: query.q });
+
+  return { data: await pipeline.toBuffer(), format: outputFormat };
+}
+
+// Least-recently-used derivative cache bounded by total bytes; concurrent requests share one render
+export class DerivativeCache {
+  private entries: Map<string, Derivative>;
+  private pending: Map<string, Promise<Derivative>>;
+  private totalBytes: number;
+
+  constructor(private maxBytes: number) {
+    this.entries = new Map();
+    this.pending = new Map();
+    this.totalBytes = 0;
+  }
+
+  async get(image: Image, variant: string, render: () => Promise<Derivative>): Promise<Derivative> {
+    const key = `${image.hash ?? image.id}:${variant}`;
+
+    const cached = this.entries.get(key);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, cached);
+      return cached;
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = render()
+      .then(derivative => {
+        this.store(key, derivative);
+        return derivative;
+      })
+      .finally(() => this.pending.delete(key));
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  private store(key: string, derivative: Derivative) {
+    if (derivative.data.length > this.maxBytes) return;
+
+    this.entries.set(key, derivative);
+    this.totalBytes += derivative.data.length;
+
+    // Map iteration order is insertion order, so the first keys are the least recently used
+    for (const oldestKey of Array.from(this.entries.keys())) {
+      if (this.totalBytes <= this.maxBytes) break;
+      this.totalBytes -= this.entries.get(oldestKey)!.data.length;
+      this.entries.delete(oldestKey);
+    }
+  }
+}
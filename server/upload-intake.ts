@@ -0,0 +1,102 @@
+import { createWriteStream, promises as fs } from "fs";
+import { createHash, randomUUID } from "crypto";
+import { tmpdir } from "os";
+import path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { ImageValidationError } from "./image-formats";
+
+export type UploadRoute = "multipart" | "base64" | "url" | "raw";
+
+export interface UploadLimits {
+  routes: Record<UploadRoute, number>; // max image bytes per upload route
+  keys: Map<string, number>; // sha256 of an API key -> max image bytes, overriding the route limits
+}
+
+const MB = 1024 * 1024;
+
+const megabytes = (value: string | undefined) => {
+  const parsed = value ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed * MB) : undefined;
+};
+
+const digest = (apiKey: string) => createHash("sha256").update(apiKey).digest("hex");
+
+// UPLOAD_MAX_MB for every route (default 10), UPLOAD_MAX_MB_MULTIPART / _BASE64 / _URL / _RAW per route,
+// and UPLOAD_API_KEYS="key:MB,..." for callers sending `X-API-Key`
+export function loadUploadLimits(env = process.env): UploadLimits {
+  const fallback = megabytes(env.UPLOAD_MAX_MB) ?? 10 * MB;
+  const keys = new Map<string, number>();
+  for (const entry of (env.UPLOAD_API_KEYS ?? "").split(",")) {
+    const separator = entry.lastIndexOf(":");
+    const key = entry.slice(0, separator).trim();
+    const limit = megabytes(entry.slice(separator + 1));
+    if (separator > 0 && key && limit) {
+      keys.set(digest(key), limit);
+    }
+  }
+
+  return {
+    routes: {
+      multipart: megabytes(env.UPLOAD_MAX_MB_MULTIPART) ?? fallback,
+      base64: megabytes(env.UPLOAD_MAX_MB_BASE64) ?? fallback,
+      url: megabytes(env.UPLOAD_MAX_MB_URL) ?? fallback,
+      raw: megabytes(env.UPLOAD_MAX_MB_RAW) ?? fallback, // binary pixel bodies; raw JSON uploads count as base64
+    },
+    keys,
+  };
+}
+
+// Unknown or missing keys get the route limit; API keys only raise or lower limits, they do not authenticate
+export function resolveUploadLimit(limits: UploadLimits, route: UploadRoute, apiKey: string | undefined): number {
+  return (apiKey && limits.keys.get(digest(apiKey))) || limits.routes[route];
+}
+
+// JSON body size that fits a base64 image of `maxBytes` plus the rest of the request
+export const base64BodyLimit = (maxBytes: number) => Math.ceil(maxBytes / 3) * 4 + 64 * 1024;
+
+const formatSize = (bytes: number) =>
+  bytes >= MB ? `${+(bytes / MB).toFixed(1)}MB` : `${Math.ceil(bytes / 1024)}KB`;
+
+export const payloadTooLarge = (maxBytes: number) =>
+  new ImageValidationError(`Image too large (max ${formatSize(maxBytes)})`, 413, "payload_too_large");
+
+// UPLOAD_TMP_DIR holds uploads while they are processed; defaults to the system temp directory
+export const uploadTmpDir = () => path.resolve(process.env.UPLOAD_TMP_DIR || tmpdir());
+
+// Writes a body to a temp file without buffering it, failing with 413 as soon as it passes `maxBytes`
+export async function saveToTempFile(body: NodeJS.ReadableStream, maxBytes: number): Promise<string> {
+  const dir = uploadTmpDir();
+  await fs.mkdir(dir, { recursive: true });
+  const file = path.join(dir, `upload-${randomUUID()}`);
+
+  let received = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      callback(received > maxBytes ? payloadTooLarge(maxBytes) : null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(body, limiter, createWriteStream(file));
+    return file;
+  } catch (error) {
+    await removeTempFile(file);
+    throw error;
+  }
+}
+
+// Temp file for bytes produced on a worker, handed back by path rather than copied to the caller
+export async function writeTempFile(bytes: Buffer): Promise<string> {
+  const dir = uploadTmpDir();
+  await fs.mkdir(dir, { recursive: true });
+  const file = path.join(dir, `upload-${randomUUID()}`);
+  await fs.writeFile(file, bytes);
+  return file;
+}
+
+export async function removeTempFile(file: string | undefined) {
+  if (!file) return;
+  await fs.rm(file, { force: true }).catch(error => console.error("Error removing temp file:", error));
+}
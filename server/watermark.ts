@@ -0,0 +1,89 @@
+import sharp from "sharp";
+import type { WatermarkProfile } from "@shared/schema";
+import { isSharpOutputFormat, normalizeFormat } from "./image-formats";
+import type { Derivative } from "./transform";
+
+// DEFAULT_WATERMARK names the profile applied to uploads that do not choose one
+export const defaultWatermark = () => process.env.DEFAULT_WATERMARK || undefined;
+
+const GRAVITY: Record<string, string> = {
+  "top-left": "northwest",
+  "top": "north",
+  "top-right": "northeast",
+  "left": "west",
+  "center": "centre",
+  "right": "east",
+  "bottom-left": "southwest",
+  "bottom": "south",
+  "bottom-right": "southeast",
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// White text with a dark outline so it reads on any background. Rendered generously,
+// trimmed to the glyphs, then scaled into the box, since the font's metrics are unknown here.
+async function renderText(text: string, width: number, maxHeight: number, opacity: number): Promise<Buffer> {
+  const fontSize = 96;
+  const svg = Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fontSize * (text.length + 2)}" height="${fontSize * 2}">` +
+    `<text x="${fontSize}" y="${fontSize * 1.3}" font-family="sans-serif" font-weight="bold" font-size="${fontSize}" ` +
+    `fill="#ffffff" fill-opacity="${opacity}" stroke="#000000" stroke-opacity="${opacity * 0.6}" stroke-width="4">` +
+    `${escapeXml(text)}</text></svg>`,
+  );
+  const glyphs = await sharp(svg).trim().png().toBuffer();
+  return sharp(glyphs).resize({ width, height: maxHeight, fit: "inside" }).png().toBuffer();
+}
+
+// Logo scaled to fit and its alpha channel multiplied by the profile opacity
+async function renderLogo(logo: Buffer, width: number, maxHeight: number, opacity: number): Promise<Buffer> {
+  const { data, info } = await sharp(logo)
+    .resize({ width, height: maxHeight, fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  for (let offset = 3; offset < data.length; offset += 4) {
+    data[offset] = Math.round(data[offset] * opacity);
+  }
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } }).png().toBuffer();
+}
+
+// Overlays the profile on a still image. Returns undefined for what cannot be watermarked
+// without losing content: SVG (vector) and animations (every frame would need compositing).
+export async function applyWatermark(
+  bytes: Buffer,
+  profile: WatermarkProfile,
+  logo: Buffer | undefined,
+  quality?: number,
+): Promise<Derivative | undefined> {
+  const metadata = await sharp(bytes).metadata();
+  const format = normalizeFormat(metadata); // "avif" rather than Sharp's "heif", so the Content-Type is right
+  if (format === "svg" || (metadata.pages ?? 1) > 1 || !metadata.width || !metadata.height) return undefined;
+
+  const margin = Math.round(Math.min(metadata.width, metadata.height) * 0.02);
+  const width = Math.max(1, Math.min(Math.round(metadata.width * profile.scale), metadata.width - 2 * margin));
+  const maxHeight = Math.max(1, metadata.height - 2 * margin);
+
+  let overlay: Buffer;
+  if (profile.kind === "image") {
+    if (!logo) return undefined;
+    overlay = await renderLogo(logo, width, maxHeight, profile.opacity);
+  } else {
+    overlay = await renderText(profile.text ?? "", width, maxHeight, profile.opacity);
+  }
+
+  // Transparent padding keeps the mark off the edges whatever the gravity
+  const padded = await sharp(overlay)
+    .extend({ top: margin, bottom: margin, left: margin, right: margin, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .png()
+    .toBuffer();
+
+  const outputFormat = isSharpOutputFormat(format) ? format : "png";
+  const data = await sharp(bytes)
+    .composite([{ input: padded, gravity: GRAVITY[profile.position] ?? "southeast" }])
+    .keepIccProfile()
+    .toFormat(outputFormat, { quality })
+    .toBuffer();
+  return { data, format: outputFormat };
+}
@@ -0,0 +1,182 @@
+import { Worker } from "worker_threads";
+import { cpus } from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { ImageValidationError } from "./image-formats";
+import { positiveInt } from "./config";
+import type { ImageTasks, ImageTaskName } from "./image-tasks";
+
+export interface WorkerPoolConfig {
+  size: number; // worker threads
+  maxQueue: number; // jobs allowed to wait for a free worker
+  timeoutMs: number; // per job, from the moment a worker picks it up
+}
+
+export interface WorkerRequest {
+  id: number;
+  task: string;
+  args: unknown[];
+}
+
+export type WorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: { name: string; message: string; status?: number; code?: string } };
+
+// Thrown when the pool cannot take or finish a job; answered with 503 and Retry-After
+export class ProcessingUnavailableError extends Error {
+  constructor(message: string, public code: "workers_busy" | "processing_timeout" | "worker_crashed") {
+    super(message);
+    this.name = "ProcessingUnavailableError";
+  }
+}
+
+// IMAGE_WORKERS / IMAGE_WORKER_QUEUE / IMAGE_WORKER_TIMEOUT_MS
+export function loadWorkerPoolConfig(env = process.env): WorkerPoolConfig {
+  return {
+    size: positiveInt(env.IMAGE_WORKERS, Math.max(1, Math.min(4, cpus().length - 1))),
+    maxQueue: positiveInt(env.IMAGE_WORKER_QUEUE, 16, 0),
+    timeoutMs: positiveInt(env.IMAGE_WORKER_TIMEOUT_MS, 30_000),
+  };
+}
+
+// Structured cloning turns Buffers into plain Uint8Arrays; turn them back
+export function reviveBuffers(value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    return Buffer.isBuffer(value) ? value : Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+  }
+  if (Array.isArray(value)) {
+    return value.map(reviveBuffers);
+  }
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, reviveBuffers(entry)]));
+  }
+  return value;
+}
+
+// Errors cross the thread boundary as plain objects; keep validation errors answerable as such
+function reviveError({ name, message, status, code }: { name: string; message: string; status?: number; code?: string }) {
+  if (name === "ImageValidationError") {
+    return new ImageValidationError(message, status, code);
+  }
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+// Same directory and extension as this module: image-worker.ts under tsx, dist/image-worker.js once bundled
+const workerExtension = path.extname(fileURLToPath(import.meta.url));
+const workerUrl = new URL(`./image-worker${workerExtension}`, import.meta.url);
+
+// Loader hooks are per thread, so a TypeScript worker has to register tsx before importing itself
+const createWorker = () => workerExtension === ".ts"
+  ? new Worker(
+    `import("tsx/esm/api").then(({ register }) => { register(); return import(${JSON.stringify(workerUrl.href)}); })`,
+    { eval: true },
+  )
+  : new Worker(workerUrl);
+
+interface Job {
+  id: number;
+  task: ImageTaskName;
+  args: unknown[];
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+// Bounded pool of worker threads for Sharp processing, so decoding large uploads never blocks the
+// event loop that serves requests and WebSocket broadcasts. Workers start on demand.
+export class ImageWorkerPool {
+  private idle: Worker[] = [];
+  private active = new Map<Worker, Job>();
+  private queue: Job[] = [];
+  private nextId = 1;
+  private closed = false;
+
+  constructor(private config: WorkerPoolConfig) {}
+
+  run<K extends ImageTaskName>(task: K, ...args: Parameters<ImageTasks[K]>): Promise<Awaited<ReturnType<ImageTasks[K]>>> {
+    if (this.closed) {
+      return Promise.reject(new ProcessingUnavailableError("Image processing is shutting down", "workers_busy"));
+    }
+    const saturated = this.idle.length === 0 && this.active.size >= this.config.size;
+    if (saturated && this.queue.length >= this.config.maxQueue) {
+      return Promise.reject(new ProcessingUnavailableError("Image processing is at capacity, retry shortly", "workers_busy"));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, task, args, resolve: resolve as (result: unknown) => void, reject });
+      this.dispatch();
+    });
+  }
+
+  async close() {
+    this.closed = true;
+    this.queue.splice(0).forEach(job => job.reject(new ProcessingUnavailableError("Image processing is shutting down", "workers_busy")));
+    const workers = [...this.idle, ...Array.from(this.active.keys())];
+    this.idle = [];
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private dispatch() {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.active.size < this.config.size ? this.spawn() : undefined);
+      if (!worker) return;
+      this.start(worker, this.queue.shift()!);
+    }
+  }
+
+  private start(worker: Worker, job: Job) {
+    this.active.set(worker, job);
+    job.timer = setTimeout(() => {
+      // Sharp cannot be interrupted mid-operation, so the worker is replaced
+      this.finish(worker, new ProcessingUnavailableError(`Image processing timed out after ${this.config.timeoutMs}ms`, "processing_timeout"));
+      this.retire(worker);
+    }, this.config.timeoutMs);
+    worker.postMessage({ id: job.id, task: job.task, args: job.args } satisfies WorkerRequest);
+  }
+
+  private spawn(): Worker {
+    const worker = createWorker();
+    worker.unref();
+    worker.on("message", (response: WorkerResponse) => {
+      if (this.active.get(worker)?.id !== response.id) return;
+      this.finish(worker, "error" in response ? reviveError(response.error) : reviveBuffers(response.result));
+      this.idle.push(worker);
+      this.dispatch();
+    });
+    worker.on("error", (error) => {
+      console.error("Image worker error:", error);
+    });
+    worker.on("exit", () => {
+      if (this.active.has(worker)) {
+        this.finish(worker, new ProcessingUnavailableError("Image worker exited unexpectedly", "worker_crashed"));
+      }
+      this.retire(worker);
+    });
+    return worker;
+  }
+
+  // Settles the worker's current job with a result or an error
+  private finish(worker: Worker, outcome: unknown) {
+    const job = this.active.get(worker);
+    if (!job) return;
+    this.active.delete(worker);
+    clearTimeout(job.timer);
+    if (outcome instanceof Error) {
+      job.reject(outcome);
+    } else {
+      job.resolve(outcome);
+    }
+  }
+
+  private retire(worker: Worker) {
+    this.active.delete(worker);
+    this.idle = this.idle.filter(candidate => candidate !== worker);
+    worker.removeAllListeners("exit");
+    worker.terminate().catch(() => undefined);
+    if (!this.closed) {
+      this.dispatch();
+    }
+  }
+}
@@ -1,19 +1,136 @@
-import { pgTable, text, varchar, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, index, serial, jsonb, doublePrecision, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Pre-rendered variant of an image (thumbnail, responsive width), stored in the blob store
+export interface ImageDerivative {
+  name: string; // e.g. 'w160'
+  data: string; // blob store key
+  format: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+// Sanitized EXIF summary kept for an upload; location data is never stored
+export interface ImageExifSummary {
+  make?: string;
+  model?: string;
+  lens?: string;
+  software?: string;
+  capturedAt?: string; // ISO 8601, camera local time as recorded
+  orientation?: number; // EXIF orientation of the upload (1-8), already applied to the stored bytes
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;
+  hadLocation: boolean; // the upload carried GPS data
+  stripped: boolean; // EXIF/XMP/IPTC were removed from the stored bytes
+}
+
 export const images = pgTable("images", {
   id: varchar("id").primaryKey(),
   type: text("type").notNull(), // 'base64', 'url', 'upload'
-  data: text("data").notNull(), // base64 string, url, or file path
+  data: text("data").notNull(), // blob store key for the image bytes
   filename: text("filename"),
   format: text("format"), // 'jpeg', 'png', 'gif', 'webp'
   width: integer("width"),
   height: integer("height"),
   size: integer("size"), // file size in bytes
+  hash: text("hash"), // SHA-256 of the image bytes, hex encoded
+  pinned: boolean("pinned").default(false).notNull(), // exempt from retention
+  derivatives: jsonb("derivatives").$type<ImageDerivative[]>().default([]).notNull(),
+  exif: jsonb("exif").$type<ImageExifSummary>(),
+  // Animation details; null for still images
+  frameCount: integer("frame_count"),
+  loopCount: integer("loop_count"), // 0 loops forever
+  frameDelays: jsonb("frame_delays").$type<number[]>(), // per-frame delay in ms
+  duration: integer("duration"), // total of frameDelays in ms
+  // Shown by displays while the image itself loads
+  dominantColor: text("dominant_color"), // #rrggbb
+  palette: jsonb("palette").$type<string[]>(), // up to 5 colours, most common first
+  blurhash: text("blurhash"),
+  phash: text("phash"), // 64-bit perceptual difference hash, hex encoded
+  // Closest visually similar image at upload time, when near-duplicates are flagged
+  nearDuplicateOf: varchar("near_duplicate_of").references((): AnyPgColumn => images.id, { onDelete: "set null" }),
+  watermark: varchar("watermark"), // watermark profile id
+  // Colour of the stored bytes; display derivatives are always 8-bit sRGB
+  iccProfile: text("icc_profile"), // description of the embedded ICC profile, e.g. 'Display P3'
+  colorSpace: text("color_space"), // e.g. 'srgb', 'cmyk', 'rgb16'
+  bitDepth: integer("bit_depth"), // bits per channel
+  watermarkAt: text("watermark_at"), // 'ingest' when baked into the stored bytes, 'serve' when overlaid on delivery
+  // Milliseconds, the precision of JavaScript dates and of the history cursor, so keyset pages
+  // compare exactly against stored values
+  uploadedAt: timestamp("uploaded_at", { precision: 3 }).defaultNow().notNull(),
+}, (table) => [
+  index("images_hash_idx").on(table.hash),
+]);
+
+// Every upload request, including ones deduplicated onto an existing image
+export const imageUploads = pgTable("image_uploads", {
+  id: varchar("id").primaryKey(),
+  imageId: varchar("image_id").notNull().references(() => images.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // 'base64', 'url', 'upload'
+  filename: text("filename"),
+  duplicate: boolean("duplicate").notNull(),
   uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
 });
 
+// Pointer to the image currently shown on the displays
+export const displayState = pgTable("display_state", {
+  id: varchar("id").primaryKey(), // 'default'
+  currentImageId: varchar("current_image_id").references(() => images.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Every change of the current image, newest last; used to undo back to earlier images
+export const displayHistory = pgTable("display_history", {
+  id: serial("id").primaryKey(),
+  imageId: varchar("image_id").references(() => images.id, { onDelete: "cascade" }), // null when cleared
+  displayedAt: timestamp("displayed_at").defaultNow().notNull(),
+});
+
+export const WATERMARK_POSITIONS = [
+  "top-left", "top", "top-right",
+  "left", "center", "right",
+  "bottom-left", "bottom", "bottom-right",
+] as const;
+
+// Branding overlaid on images, either a text line or a logo stored in the blob store
+export const watermarkProfiles = pgTable("watermark_profiles", {
+  id: varchar("id").primaryKey(), // chosen by the admin, e.g. 'lobby-logo'
+  kind: text("kind").notNull(), // 'text' or 'image'
+  text: text("text"),
+  logo: text("logo"), // blob store key of the logo PNG
+  position: text("position").notNull(), // one of WATERMARK_POSITIONS
+  opacity: doublePrecision("opacity").notNull(), // 0-1
+  scale: doublePrecision("scale").notNull(), // watermark width as a fraction of the image width
+  applyAt: text("apply_at").notNull(), // 'ingest' bakes it into stored bytes, 'serve' overlays on delivery
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const JOB_STATUSES = ["queued", "running", "completed", "failed"] as const;
+
+// Background work started by uploads (placeholder, perceptual hash, derivatives). Persisted so
+// unfinished jobs resume after a restart.
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey(),
+  type: text("type").notNull(), // 'process_image'
+  imageId: varchar("image_id").references(() => images.id, { onDelete: "cascade" }),
+  status: text("status").$type<typeof JOB_STATUSES[number]>().notNull(),
+  progress: integer("progress").default(0).notNull(), // 0-100
+  step: text("step"), // what a running job is doing, e.g. 'derivatives'
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").notNull(),
+  error: text("error"), // message of the last failed attempt
+  runAt: timestamp("run_at").defaultNow().notNull(), // not started before; pushed back between retries
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"), // completed or finally failed
+}, (table) => [
+  index("jobs_status_idx").on(table.status),
+]);
+
 export const insertImageSchema = createInsertSchema(images).pick({
   type: true,
   data: true,
@@ -22,16 +139,76 @@ export const insertImageSchema = createInsertSchema(images).pick({
   width: true,
   height: true,
   size: true,
+  hash: true,
+  pinned: true,
+  frameCount: true,
+  loopCount: true,
+  duration: true,
+  dominantColor: true,
+  blurhash: true,
+  phash: true,
+  nearDuplicateOf: true,
+  watermark: true,
+  watermarkAt: true,
+  iccProfile: true,
+  colorSpace: true,
+  bitDepth: true,
+}).extend({
+  exif: z.custom<ImageExifSummary>().nullish(),
+  frameDelays: z.array(z.number()).nullish(),
+  palette: z.array(z.string()).nullish(),
+});
+
+export const insertImageUploadSchema = createInsertSchema(imageUploads).pick({
+  type: true,
+  filename: true,
 });
 
 export type InsertImage = z.infer<typeof insertImageSchema>;
 export type Image = typeof images.$inferSelect;
+export type InsertImageUpload = z.infer<typeof insertImageUploadSchema>;
+export type ImageUpload = typeof imageUploads.$inferSelect;
+export type DisplayState = typeof displayState.$inferSelect;
+export type WatermarkProfile = typeof watermarkProfiles.$inferSelect;
+// Profile fields supplied by callers; the logo key and timestamp are assigned by the storage
+export type NewWatermarkProfile = Omit<WatermarkProfile, "logo" | "updatedAt">;
+export type JobStatus = typeof JOB_STATUSES[number];
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = Pick<Job, "type" | "imageId" | "maxAttempts">;
+// Fields the job queue changes as a job moves through its attempts
+export type JobUpdate = Partial<Pick<Job, "status" | "progress" | "step" | "attempts" | "error" | "runAt" | "completedAt">>;
+
+export type ImageDerivativeResponse = Omit<ImageDerivative, "data"> & { url: string };
+
+// Image record as sent to clients; `url` serves the best format the requesting browser
+// accepts, `rawUrl` always serves the original bytes
+export type ImageResponse = Omit<Image, "data" | "derivatives"> & {
+  url: string;
+  rawUrl: string;
+  derivatives: ImageDerivativeResponse[];
+};
+
+// Job as sent to clients, in job_progress / job_complete messages and from GET /api/v1/jobs/:id
+export type JobResponse = Job & { url: string };
 
 // API request schemas
+
+// Processing options accepted in the metadata of every upload route
+export const uploadOptionsSchema = z.object({
+  promote: z.boolean().optional(), // re-show an identical, already stored image (default true)
+  pinned: z.boolean().optional(), // exempt the image from retention
+  stripMetadata: z.boolean().optional(), // remove EXIF/XMP/IPTC from the stored bytes (default STRIP_METADATA)
+  animatedToWebp: z.boolean().optional(), // store animated GIFs as animated WebP when smaller (default ANIMATED_GIF_TO_WEBP)
+  rasterizeSvg: z.boolean().optional(), // store SVG uploads as PNG instead of sanitized SVG (default SVG_MODE)
+  nearDuplicates: z.enum(["allow", "flag", "reject"]).optional(), // visually similar stored images (default NEAR_DUPLICATE_MODE)
+  similarityThreshold: z.number().int().min(0).max(64).optional(), // max Hamming distance of a near-duplicate (default NEAR_DUPLICATE_THRESHOLD)
+  watermark: z.string().nullable().optional(), // watermark profile id; null for none (default DEFAULT_WATERMARK)
+});
+
 export const base64ImageSchema = z.object({
   type: z.literal("base64"),
   data: z.string(),
-  metadata: z.object({
+  metadata: uploadOptionsSchema.extend({
     filename: z.string().optional(),
     format: z.string().optional(),
   }).optional(),
@@ -40,16 +217,176 @@ export const base64ImageSchema = z.object({
 export const urlImageSchema = z.object({
   type: z.literal("url"),
   url: z.string().url(),
-  metadata: z.object({
+  metadata: uploadOptionsSchema.extend({
     source: z.string().optional(),
   }).optional(),
 });
 
+export const RAW_DTYPES = ["uint8", "uint16", "float32"] as const;
+
+// Uncompressed pixels: interleaved samples, row by row from the top, encoded to PNG on the server.
+// Numbers may arrive as strings, since the binary route takes the layout from the query string.
+export const rawPixelFormatSchema = z.object({
+  width: z.coerce.number().int().positive(),
+  height: z.coerce.number().int().positive(),
+  channels: z.coerce.number().int().min(1).max(4), // grey, grey + alpha, RGB, RGBA
+  dtype: z.enum(RAW_DTYPES).default("uint8"), // little-endian for uint16 and float32
+  // "none": float32 samples are 0..1 and clamped; "minmax": the darkest to brightest colour sample
+  // is stretched over the full range of the output. Alpha is never stretched.
+  normalize: z.enum(["none", "minmax"]).default("none"),
+});
+
+const rawUploadOptionsSchema = uploadOptionsSchema.extend({
+  filename: z.string().optional(),
+});
+
+export const rawImageSchema = rawPixelFormatSchema.extend({
+  type: z.literal("raw"),
+  data: z.string(), // base64
+  metadata: rawUploadOptionsSchema.optional(),
+});
+
 export const imageUploadSchema = z.union([
   base64ImageSchema,
   urlImageSchema,
+  rawImageSchema,
 ]);
 
+// POST /api/v1/image/upload/raw: the pixels are the request body, `metadata` is JSON
+export const rawUploadQuerySchema = rawPixelFormatSchema.extend({
+  metadata: z.string().transform((raw, ctx) => {
+    try {
+      return JSON.parse(raw) as unknown;
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid metadata JSON" });
+      return z.NEVER;
+    }
+  }).pipe(rawUploadOptionsSchema).optional(),
+});
+
+export const setCurrentImageSchema = z.object({
+  id: z.string(),
+});
+
+export const pinImageSchema = z.object({
+  pinned: z.boolean(),
+});
+
+// Keyset position in a sorted image listing: the sort value and id of the last item served
+export interface ImageCursor {
+  value: number;
+  id: string;
+}
+
+export const encodeImageCursor = (cursor: ImageCursor): string =>
+  btoa(JSON.stringify([cursor.value, cursor.id]));
+
+const imageCursorSchema = z.string().transform((raw, ctx): ImageCursor => {
+  try {
+    const [value, id] = JSON.parse(atob(raw));
+    if (typeof value === "number" && typeof id === "string") {
+      return { value, id };
+    }
+  } catch {
+    // fall through to the issue below
+  }
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+  return z.NEVER;
+});
+
+export const imageListQuerySchema = z.object({
+  cursor: imageCursorSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  type: z.string().optional(), // 'base64', 'url', 'upload', 'raw'
+  format: z.string().toLowerCase().optional(),
+  filename: z.string().optional(), // case-insensitive substring
+  from: z.coerce.date().optional(), // uploaded at or after
+  to: z.coerce.date().optional(), // uploaded at or before
+  sort: z.enum(["uploadedAt", "size"]).default("uploadedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+});
+
+// On-the-fly derivative parameters for GET /api/v1/image/:id
+export const imageTransformQuerySchema = z.object({
+  w: z.coerce.number().int().positive().optional(),
+  h: z.coerce.number().int().positive().optional(),
+  fit: z.enum(["cover", "contain", "fill", "inside", "outside"]).default("inside"),
+  fmt: z.enum(["webp", "avif", "png", "jpeg"]).optional(),
+  q: z.coerce.number().int().min(1).max(100).optional(),
+  dpr: z.coerce.number().min(1).max(4).default(1),
+});
+
+// GET /api/v1/stream.mjpeg; each value is capped by the server's MJPEG_* settings
+export const mjpegStreamQuerySchema = z.object({
+  fps: z.coerce.number().positive().optional(),
+  w: z.coerce.number().int().positive().optional(),
+  h: z.coerce.number().int().positive().optional(),
+  q: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+// GET /api/v1/images/similar/:id
+export const similarImagesQuerySchema = z.object({
+  threshold: z.coerce.number().int().min(0).max(64).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Bounding box of a group of changed pixels in an image diff
+export interface ImageDiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  changedPixels: number;
+}
+
+export interface ImageDiffResponse {
+  baseId: string;
+  compareId: string;
+  width: number;
+  height: number;
+  changedPixels: number;
+  changedPercent: number;
+  regions: ImageDiffRegion[]; // largest first
+  url: string; // PNG diff image: unchanged pixels faded to grey, changed ones in red
+}
+
+// POST /api/v1/images/diff
+export const imageDiffSchema = z.object({
+  baseId: z.string(),
+  compareId: z.string(),
+  threshold: z.number().min(0).max(1).default(0.1), // per-channel difference (0-1) a pixel may have and still count as unchanged
+});
+
+// GET /api/v1/images/diff/:baseId/:compareId, the diff image linked from the POST response
+export const imageDiffQuerySchema = z.object({
+  threshold: z.coerce.number().min(0).max(1).default(0.1),
+});
+
+// PUT /api/v1/admin/watermarks/:id
+export const watermarkProfileIdSchema = z.string().regex(/^[a-z0-9][a-z0-9-]{0,62}$/, "Use lowercase letters, digits and dashes");
+
+export const watermarkProfileSchema = z.object({
+  kind: z.enum(["text", "image"]),
+  text: z.string().trim().min(1).max(200).optional(),
+  image: z.string().optional(), // logo as base64 or data URI; may be omitted when updating an image profile
+  position: z.enum(WATERMARK_POSITIONS).default("bottom-right"),
+  opacity: z.number().min(0).max(1).default(0.5),
+  scale: z.number().gt(0).max(1).default(0.2),
+  applyAt: z.enum(["ingest", "serve"]).default("ingest"),
+}).refine(profile => profile.kind !== "text" || !!profile.text, {
+  message: "Text watermarks need a text",
+  path: ["text"],
+});
+
+export type UploadOptions = z.infer<typeof uploadOptionsSchema>;
+export type ImageTransformQuery = z.infer<typeof imageTransformQuerySchema>;
+export type ImageListQuery = z.infer<typeof imageListQuerySchema>;
+export type SimilarImagesQuery = z.infer<typeof similarImagesQuerySchema>;
+export type MjpegStreamQuery = z.infer<typeof mjpegStreamQuerySchema>;
+export type ImageDiffRequest = z.infer<typeof imageDiffSchema>;
+export type WatermarkProfileRequest = z.infer<typeof watermarkProfileSchema>;
 export type Base64ImageRequest = z.infer<typeof base64ImageSchema>;
 export type UrlImageRequest = z.infer<typeof urlImageSchema>;
+export type RawImageRequest = z.infer<typeof rawImageSchema>;
+export type RawPixelFormat = z.infer<typeof rawPixelFormatSchema>;
 export type ImageUploadRequest = z.infer<typeof imageUploadSchema>;